@@ -0,0 +1,46 @@
+import SmartBatcher from '../src';
+import { EvictionPolicy } from '../src/types';
+
+// Times writes into a full cache, where every write evicts an entry. Picking
+// the victim should not get slower as the cache grows.
+// Run with `npm run bench`.
+
+const CAPACITIES = [2000, 8000];
+const WRITES = 2000;
+const POLICIES: EvictionPolicy[] = ['lru', 'lfu', 'fifo'];
+
+async function writesAtCapacity(policy: EvictionPolicy, capacity: number): Promise<number> {
+  const batcher = new SmartBatcher(async (queries: string[]) => queries, { maxEntries: capacity, evictionPolicy: policy });
+  for (let i = 0; i < capacity; i++) {
+    await batcher.setValue(`key-${i}`, `value-${i}`);
+  }
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < WRITES; i++) {
+    await batcher.setValue(`new-${i}`, `value-${i}`);
+  }
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  batcher.dispose();
+  return elapsed;
+}
+
+describe('eviction', () => {
+  const rows: Record<string, string | number>[] = [];
+
+  afterAll(() => {
+    console.table(rows);
+  });
+
+  it.each(POLICIES)('should evict in constant time with %s', async policy => {
+    const [small, large] = [
+      await writesAtCapacity(policy, CAPACITIES[0]),
+      await writesAtCapacity(policy, CAPACITIES[1])
+    ];
+    rows.push({
+      policy,
+      [`${CAPACITIES[0]} entries (ms)`]: Math.round(small),
+      [`${CAPACITIES[1]} entries (ms)`]: Math.round(large)
+    });
+
+    expect(large).toBeLessThan(small * 2);
+  });
+});
@@ -0,0 +1,57 @@
+import sizeof from 'object-sizeof';
+import SmartBatcher from '../src';
+
+// Compares filling the cache through setValue, which keeps a running size
+// total, with the old path that ran sizeof over the whole store on each write.
+// Run with `npm run bench`.
+
+const SIZES = [500, 1000, 2000];
+const value = (i: number) => ({ id: `item-${i}`, name: `Item ${i}`, tags: ['a', 'b', 'c'] });
+
+async function legacyFill(count: number): Promise<void> {
+  const data: Record<string, ReturnType<typeof value>> = {};
+  for (let i = 0; i < count; i++) {
+    const key = `key-${i}`;
+    const entry = value(i);
+    const totalSizeMB = (sizeof(data) + sizeof({ [key]: entry })) / 1024 / 1024;
+    if (totalSizeMB > 1024) {
+      throw new Error('Over the memory limit');
+    }
+    data[key] = entry;
+  }
+}
+
+async function incrementalFill(count: number): Promise<void> {
+  const batcher = new SmartBatcher(async (queries: string[]) => queries.map((_, i) => value(i)));
+  for (let i = 0; i < count; i++) {
+    await batcher.setValue(`key-${i}`, value(i));
+  }
+  await batcher.clearCache();
+}
+
+async function time(fn: () => Promise<void>): Promise<number> {
+  const start = process.hrtime.bigint();
+  await fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+describe('memory accounting', () => {
+  const rows: Record<string, string | number>[] = [];
+
+  afterAll(() => {
+    console.table(rows);
+  });
+
+  it.each(SIZES)('should fill %i entries faster than a full sizeof per write', async count => {
+    const legacyMs = await time(() => legacyFill(count));
+    const incrementalMs = await time(() => incrementalFill(count));
+    rows.push({
+      entries: count,
+      'sizeof per write (ms)': Math.round(legacyMs),
+      'running total (ms)': Math.round(incrementalMs),
+      speedup: `${(legacyMs / incrementalMs).toFixed(1)}x`
+    });
+
+    expect(incrementalMs).toBeLessThan(legacyMs);
+  });
+});
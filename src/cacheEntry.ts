@@ -0,0 +1,38 @@
+const CACHE_ENTRY = Symbol('smartBatcher.cacheEntry');
+
+export interface CacheEntryOptions {
+    tags?: string[];
+
+    /**
+     * Keep the value in the requesting scope only, never in the shared cache
+     */
+    private?: boolean;
+
+    /**
+     * Lifetime of this value in milliseconds, e.g. from a Cache-Control
+     * max-age, used instead of expirationTime. 0 never expires it
+     */
+    ttl?: number;
+}
+
+/**
+ * Result wrapper that lets batchFunction attach metadata to a cached value
+ */
+export interface CacheEntry<T> extends CacheEntryOptions {
+    readonly [CACHE_ENTRY]: true;
+    value: T;
+}
+
+/**
+ * Wraps a batchFunction result with cache metadata such as tags
+ *
+ * @param value - The result to cache
+ * @param options - Metadata stored alongside the value
+ */
+export function cacheEntry<T>(value: T, options: CacheEntryOptions = {}): CacheEntry<T> {
+    return { [CACHE_ENTRY]: true, value, ...options };
+}
+
+export function isCacheEntry<T>(result: T | CacheEntry<T>): result is CacheEntry<T> {
+    return typeof result === 'object' && result !== null && (result as CacheEntry<T>)[CACHE_ENTRY] === true;
+}
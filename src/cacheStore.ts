@@ -0,0 +1,230 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Storage backend used by SmartBatcher to keep cached results
+ */
+export interface CacheStore<T> {
+    /**
+     * Retrieves a value, or undefined if the key is not stored
+     */
+    get(key: string): Promise<T | undefined>;
+
+    /**
+     * Stores a value under the given key
+     */
+    set(key: string, value: T): Promise<void>;
+
+    /**
+     * Removes a key and returns the value it held, if any
+     */
+    delete(key: string): Promise<T | undefined>;
+
+    /**
+     * Checks if a key is stored
+     */
+    has(key: string): Promise<boolean>;
+
+    /**
+     * Removes every stored key
+     */
+    clear(): Promise<void>;
+
+    /**
+     * Returns every stored entry
+     */
+    all(): Promise<Record<string, T>>;
+}
+
+/**
+ * Default in-process CacheStore backed by a plain object
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+    private data: Record<string, T> = {};
+
+    async get(key: string): Promise<T | undefined> {
+        return this.data[key];
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.data[key] = value;
+    }
+
+    async delete(key: string): Promise<T | undefined> {
+        const value = this.data[key];
+        delete this.data[key];
+        return value;
+    }
+
+    async has(key: string): Promise<boolean> {
+        return key in this.data;
+    }
+
+    async clear(): Promise<void> {
+        this.data = {};
+    }
+
+    async all(): Promise<Record<string, T>> {
+        return this.data;
+    }
+}
+
+type FileChange<T> = (data: Record<string, T>) => void;
+
+// Writes to the same file from every FileCacheStore in the process, chained
+// so that each one reads the file after the previous one has replaced it
+const fileWrites: Map<string, Promise<void>> = new Map();
+
+async function readCacheFile<T>(filePath: string): Promise<Record<string, T>> {
+    try {
+        const content = await fs.readFile(filePath, 'utf8');
+        return content.trim() ? JSON.parse(content) : {};
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return {};
+        }
+        throw error;
+    }
+}
+
+// Identifies the file's current content. Each write renames a new temp file
+// over it, so the path then points at a new inode
+async function fileVersion(filePath: string): Promise<string> {
+    try {
+        const stat = await fs.stat(filePath);
+        return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return 'missing';
+        }
+        throw error;
+    }
+}
+
+/**
+ * CacheStore persisted as a JSON file, so cached data survives restarts.
+ * Reads re-load the file when another instance has replaced it, and each
+ * write re-reads the file and applies its change on top, so several
+ * instances in one process can share a file. Instances in different
+ * processes may still overwrite each other's changes
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+    private data: Record<string, T> | null = null;
+    private loading: Promise<Record<string, T>> | null = null;
+    private version: string | null = null;
+    private pending: FileChange<T>[] = [];
+
+    /**
+     * @param filePath - Path of the JSON file holding the cache
+     */
+    constructor(private readonly filePath: string) {}
+
+    private load(): Promise<Record<string, T>> {
+        if (!this.loading) {
+            const loading = this.refresh();
+            const release = () => {
+                if (this.loading === loading) {
+                    this.loading = null;
+                }
+            };
+            loading.then(release, release);
+            this.loading = loading;
+        }
+        return this.loading;
+    }
+
+    /**
+     * Returns the cached data, re-reading the file first if it changed since
+     * this instance last read or wrote it
+     */
+    private async refresh(): Promise<Record<string, T>> {
+        const version = await fileVersion(this.filePath);
+        if (this.data && version === this.version) {
+            return this.data;
+        }
+        const data = await readCacheFile<T>(this.filePath);
+        this.pending.forEach(change => change(data));
+        this.data = data;
+        this.version = version;
+        return data;
+    }
+
+    /**
+     * Applies change to the cached data now, and to the file's current
+     * content once earlier writes to the file are done
+     */
+    private async persist(change: FileChange<T>): Promise<void> {
+        const data = await this.load();
+        change(data);
+        this.pending.push(change);
+        const filePath = path.resolve(this.filePath);
+        const write = async () => {
+            const latest = await readCacheFile<T>(filePath);
+            change(latest);
+            const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(tmpPath, JSON.stringify(latest), 'utf8');
+            // The rename keeps the inode and mtime, so this is the version
+            // the file has once replaced
+            const version = await fileVersion(tmpPath);
+            await fs.rename(tmpPath, filePath);
+            // Pick up other instances' writes, keeping this instance's
+            // changes that are still queued
+            this.pending.splice(this.pending.indexOf(change), 1);
+            this.pending.forEach(queued => queued(latest));
+            this.data = latest;
+            this.version = version;
+        };
+        const writing = (fileWrites.get(filePath) ?? Promise.resolve()).then(write, write);
+        const settled = writing.catch(() => {});
+        fileWrites.set(filePath, settled);
+        settled.then(() => {
+            if (fileWrites.get(filePath) === settled) {
+                fileWrites.delete(filePath);
+            }
+        });
+        try {
+            await writing;
+        } catch (error) {
+            this.pending.splice(this.pending.indexOf(change), 1);
+            throw error;
+        }
+    }
+
+    async get(key: string): Promise<T | undefined> {
+        const data = await this.load();
+        return data[key];
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        await this.persist(data => {
+            data[key] = value;
+        });
+    }
+
+    async delete(key: string): Promise<T | undefined> {
+        const value = (await this.load())[key];
+        // Persisted even when the key looks absent, since the file may have
+        // it from a write made after the last read
+        await this.persist(latest => {
+            delete latest[key];
+        });
+        return value;
+    }
+
+    async has(key: string): Promise<boolean> {
+        const data = await this.load();
+        return key in data;
+    }
+
+    async clear(): Promise<void> {
+        await this.persist(latest => {
+            Object.keys(latest).forEach(key => delete latest[key]);
+        });
+    }
+
+    async all(): Promise<Record<string, T>> {
+        return this.load();
+    }
+}
@@ -0,0 +1,78 @@
+import { CircuitState } from './types.js';
+
+/**
+ * Tracks consecutive batchFunction failures. After failureThreshold failures
+ * the breaker opens; once cooldownMs has passed it lets halfOpenMaxBatches
+ * trial batches through, closing if they all succeed and reopening otherwise
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private failures = 0;
+    private openedAt = 0;
+    private trials = 0;
+    private successes = 0;
+
+    constructor(
+        private readonly failureThreshold: number,
+        private readonly cooldownMs: number,
+        private readonly halfOpenMaxBatches: number,
+        private readonly onStateChange: (from: CircuitState, to: CircuitState) => void
+    ) {}
+
+    /**
+     * Current state, moving from open to half-open once the cooldown is over
+     */
+    getState(): CircuitState {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+            this.trials = 0;
+            this.successes = 0;
+            this.transition('half-open');
+        }
+        return this.state;
+    }
+
+    /**
+     * Reserves a batch. Returns false when the breaker is open or every
+     * half-open trial is already taken
+     */
+    tryAcquire(): boolean {
+        const state = this.getState();
+        if (state === 'open') {
+            return false;
+        }
+        if (state === 'half-open') {
+            if (this.trials >= this.halfOpenMaxBatches) {
+                return false;
+            }
+            this.trials++;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        if (this.state === 'half-open') {
+            if (++this.successes >= this.halfOpenMaxBatches) {
+                this.failures = 0;
+                this.transition('closed');
+            }
+            return;
+        }
+        this.failures = 0;
+    }
+
+    recordFailure(): void {
+        if (this.state === 'half-open' || ++this.failures >= this.failureThreshold) {
+            this.openedAt = Date.now();
+            this.transition('open');
+        }
+    }
+
+    private transition(to: CircuitState): void {
+        const from = this.state;
+        if (from === to) {
+            return;
+        }
+        this.state = to;
+        this.onStateChange(from, to);
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Base error class for SmartBatcher errors
+ */
+export class BatcherError<Q = any> extends Error {
+    /**
+     * Id of the batch the error came from, also found on the batch's span
+     * and its batchStart and batchEnd events
+     */
+    batchId?: string;
+
+    constructor(message: string, public readonly query: Q, public readonly cause?: any) {
+        super(message);
+        this.name = 'BatcherError'; 
+        if (Error.captureStackTrace) {
+          Error.captureStackTrace(this, BatcherError)
+        }
+    }
+}
+
+/**
+ * Error thrown when there's an issue with cache operations
+ */
+export class CacheError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when the batch function fails
+ */
+export class BatchFunctionError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when memory limits are exceeded
+ */
+export class MemoryLimitError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when an item is not found
+ */
+export class NotFoundError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when batchFunction returns fewer positional results than queries
+ */
+export class BatchResultMismatchError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when a load is cancelled through its AbortSignal
+ */
+export class BatcherAbortError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when a load or a whole batch exceeds its timeout
+ */
+export class BatcherTimeoutError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown when the circuit breaker is open and batchFunction is not called
+ */
+export class CircuitOpenError<Q = any> extends BatcherError<Q> {}
+
+/**
+ * Error thrown for pending and new calls once a batcher has been disposed
+ */
+export class BatcherDisposedError<Q = any> extends BatcherError<Q> {}
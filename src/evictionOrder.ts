@@ -0,0 +1,145 @@
+import { EvictionPolicy } from './types.js';
+
+/**
+ * Keeps cached keys in the order the eviction policy would remove them, so
+ * picking a victim does not scan the cache. LRU and FIFO keys sit in an
+ * insertion-ordered Set, LFU keys in one Set per access count
+ */
+export class EvictionOrder {
+    // Keys found in the store but never written or read by this batcher,
+    // e.g. loaded by a FileCacheStore. They are evicted first
+    private unseen: Set<string> = new Set();
+    private queue: Set<string> = new Set();
+    private counts: Map<string, number> = new Map();
+    private buckets: Map<number, Set<string>> = new Map();
+    private minCount = 0;
+
+    constructor(private readonly policy: EvictionPolicy) {}
+
+    /**
+     * Registers a key already in the store, unless it is known
+     */
+    add(key: string): void {
+        if (!this.has(key)) {
+            this.unseen.add(key);
+        }
+    }
+
+    /**
+     * Records a write, which makes the key the newest with no accesses
+     */
+    written(key: string): void {
+        this.delete(key);
+        if (this.policy === 'lfu') {
+            this.setCount(key, 0);
+        } else {
+            this.queue.add(key);
+        }
+    }
+
+    /**
+     * Records a read of a known key
+     */
+    accessed(key: string): void {
+        if (this.unseen.has(key)) {
+            if (this.policy === 'fifo') {
+                return;
+            }
+            this.unseen.delete(key);
+            if (this.policy === 'lfu') {
+                this.setCount(key, 1);
+            } else {
+                this.queue.add(key);
+            }
+        } else if (this.policy === 'lfu') {
+            const count = this.counts.get(key);
+            if (count !== undefined) {
+                this.setCount(key, count + 1);
+            }
+        } else if (this.policy !== 'fifo' && this.queue.delete(key)) {
+            this.queue.add(key);
+        }
+    }
+
+    delete(key: string): void {
+        this.unseen.delete(key);
+        this.queue.delete(key);
+        this.removeCount(key);
+    }
+
+    clear(): void {
+        this.unseen.clear();
+        this.queue.clear();
+        this.counts.clear();
+        this.buckets.clear();
+        this.minCount = 0;
+    }
+
+    /**
+     * Returns the key to evict next, other than exclude
+     */
+    victim(exclude: string): string | undefined {
+        const unseen = firstOther(this.unseen, exclude);
+        if (unseen !== undefined || this.policy !== 'lfu') {
+            return unseen ?? firstOther(this.queue, exclude);
+        }
+        if (!this.buckets.has(this.minCount) && this.buckets.size > 0) {
+            this.minCount = Math.min(...this.buckets.keys());
+        }
+        const victim = firstOther(this.buckets.get(this.minCount), exclude);
+        if (victim !== undefined) {
+            return victim;
+        }
+        // Only exclude is left at the lowest count
+        const counts = [...this.buckets.keys()].sort((a, b) => a - b);
+        for (const count of counts) {
+            const key = firstOther(this.buckets.get(count), exclude);
+            if (key !== undefined) {
+                return key;
+            }
+        }
+        return undefined;
+    }
+
+    private has(key: string): boolean {
+        return this.unseen.has(key) || this.queue.has(key) || this.counts.has(key);
+    }
+
+    private setCount(key: string, count: number): void {
+        this.removeCount(key);
+        this.counts.set(key, count);
+        let bucket = this.buckets.get(count);
+        if (!bucket) {
+            bucket = new Set();
+            this.buckets.set(count, bucket);
+        }
+        bucket.add(key);
+        if (count < this.minCount || !this.buckets.has(this.minCount)) {
+            this.minCount = count;
+        }
+    }
+
+    private removeCount(key: string): void {
+        const count = this.counts.get(key);
+        if (count === undefined) {
+            return;
+        }
+        this.counts.delete(key);
+        const bucket = this.buckets.get(count)!;
+        bucket.delete(key);
+        if (bucket.size === 0) {
+            this.buckets.delete(count);
+        }
+    }
+}
+
+function firstOther(keys: Set<string> | undefined, exclude: string): string | undefined {
+    if (keys) {
+        for (const key of keys) {
+            if (key !== exclude) {
+                return key;
+            }
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,165 @@
+interface ExpiryNode {
+    key: string;
+    expiresAt: number;
+    ttl: number;
+}
+
+// Longest delay setTimeout accepts; later deadlines are reached in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Min-heap of expiry deadlines driven by a single timer. Rescheduled and
+ * cancelled keys leave stale nodes behind, which are skipped when popped
+ */
+export class ExpiryQueue {
+    private heap: ExpiryNode[] = [];
+    private deadlines: Map<string, ExpiryNode> = new Map();
+    private timer: NodeJS.Timeout | null = null;
+    private timerAt = Infinity;
+
+    /**
+     * @param onExpire - Called with each key whose deadline has passed, and its ttl
+     * @param unref - Whether the timer may let the process exit
+     */
+    constructor(
+        private readonly onExpire: (key: string, ttl: number) => void,
+        private readonly unref: boolean
+    ) {}
+
+    /**
+     * Expires key ttl milliseconds from now, replacing any earlier deadline
+     */
+    schedule(key: string, ttl: number): void {
+        const node: ExpiryNode = { key, expiresAt: Date.now() + ttl, ttl };
+        this.deadlines.set(key, node);
+        this.push(node);
+        if (this.heap.length > 64 && this.heap.length > this.deadlines.size * 2) {
+            this.compact();
+        }
+        this.arm();
+    }
+
+    /**
+     * Keeps key due without a timer, so the next isDue check for it expires
+     * it again. Used when expiring it failed
+     */
+    markDue(key: string, ttl: number): void {
+        this.deadlines.set(key, { key, expiresAt: Date.now(), ttl });
+    }
+
+    cancel(key: string): void {
+        this.deadlines.delete(key);
+    }
+
+    clear(): void {
+        this.heap = [];
+        this.deadlines.clear();
+        this.disarm();
+    }
+
+    expiresAt(key: string): number | undefined {
+        return this.deadlines.get(key)?.expiresAt;
+    }
+
+    ttl(key: string): number | undefined {
+        return this.deadlines.get(key)?.ttl;
+    }
+
+    /**
+     * Whether key has a deadline that has already passed. Used for lazy
+     * expiry when a read comes before the timer
+     */
+    isDue(key: string): boolean {
+        const node = this.deadlines.get(key);
+        return node !== undefined && node.expiresAt <= Date.now();
+    }
+
+    private run(): void {
+        this.timer = null;
+        this.timerAt = Infinity;
+        const now = Date.now();
+        const due: ExpiryNode[] = [];
+        while (this.heap.length > 0 && this.heap[0].expiresAt <= now) {
+            const node = this.pop();
+            if (this.deadlines.get(node.key) === node) {
+                this.deadlines.delete(node.key);
+                due.push(node);
+            }
+        }
+        this.arm();
+        due.forEach(node => this.onExpire(node.key, node.ttl));
+    }
+
+    private arm(): void {
+        while (this.heap.length > 0 && this.deadlines.get(this.heap[0].key) !== this.heap[0]) {
+            this.pop();
+        }
+        if (this.heap.length === 0) {
+            this.disarm();
+            return;
+        }
+        const next = this.heap[0].expiresAt;
+        if (this.timer && this.timerAt <= next) {
+            return;
+        }
+        this.disarm();
+        this.timerAt = next;
+        this.timer = setTimeout(() => this.run(), Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_DELAY));
+        if (this.unref) {
+            this.timer.unref();
+        }
+    }
+
+    private disarm(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = null;
+        this.timerAt = Infinity;
+    }
+
+    private compact(): void {
+        this.heap = [];
+        this.deadlines.forEach(node => this.push(node));
+    }
+
+    private push(node: ExpiryNode): void {
+        const heap = this.heap;
+        heap.push(node);
+        let index = heap.length - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (heap[parent].expiresAt <= node.expiresAt) {
+                break;
+            }
+            heap[index] = heap[parent];
+            index = parent;
+        }
+        heap[index] = node;
+    }
+
+    private pop(): ExpiryNode {
+        const heap = this.heap;
+        const top = heap[0];
+        const last = heap.pop()!;
+        if (heap.length === 0) {
+            return top;
+        }
+        let index = 0;
+        while (true) {
+            const left = index * 2 + 1;
+            if (left >= heap.length) {
+                break;
+            }
+            const right = left + 1;
+            const child = right < heap.length && heap[right].expiresAt < heap[left].expiresAt ? right : left;
+            if (heap[child].expiresAt >= last.expiresAt) {
+                break;
+            }
+            heap[index] = heap[child];
+            index = child;
+        }
+        heap[index] = last;
+        return top;
+    }
+}
@@ -1,92 +1,414 @@
+import { randomUUID } from 'crypto';
 import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
 import sizeof from 'object-sizeof';
 import hash from 'object-hash';
+import { isCacheEntry } from './cacheEntry.js';
+import { CacheStore, MemoryCacheStore } from './cacheStore.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { EvictionOrder } from './evictionOrder.js';
+import { ExpiryQueue } from './expiryQueue.js';
+import { InvalidationEvent, InvalidationMessage, InvalidationTransport } from './invalidationBus.js';
+import { L1Cache } from './l1Cache.js';
+import { currentRequestScope } from './requestScope.js';
+import { SPAN_STATUS_ERROR, Span, SpanContext, SpanLink, Tracer } from './tracing.js';
+import { StoredValue, ValueCodec } from './valueCodec.js';
+import {
+    BatcherAbortError,
+    BatcherDisposedError,
+    BatcherError,
+    BatcherTimeoutError,
+    BatchFunctionError,
+    BatchResultMismatchError,
+    CacheError,
+    CircuitOpenError,
+    MemoryLimitError,
+    NotFoundError
+} from './errors.js';
+import { BatcherStats, MetricsCollector, PrometheusOptions, formatPrometheus } from './metrics.js';
+import { SnapshotEntry, SnapshotImportSummary, readSnapshot, writeSnapshot } from './snapshot.js';
+import {
+    BatchFunction,
+    BatchItemResult,
+    BatchResult,
+    BatcherScope,
+    CacheTier,
+    EvictionPolicy,
+    LoadOptions,
+    LoadSettledResult,
+    LogLevel,
+    Logger,
+    Priority,
+    ResultMode,
+    RetryOptions,
+    SetValueOptions,
+    SmartBatcherEvents,
+    SmartBatcherOptions
+} from './types.js';
 
-interface QueueItem<T> {
+export { CacheEntry, CacheEntryOptions, cacheEntry } from './cacheEntry.js';
+export { CacheStore, MemoryCacheStore, FileCacheStore } from './cacheStore.js';
+export {
+    BroadcastChannelTransport,
+    ClusterTransport,
+    InvalidationEvent,
+    InvalidationMessage,
+    InvalidationTransport,
+    relayClusterInvalidations
+} from './invalidationBus.js';
+export * from './errors.js';
+export { BatcherStats, HistogramSnapshot, SummarySnapshot, PrometheusOptions } from './metrics.js';
+export { runWithContext } from './requestScope.js';
+export { SnapshotEntry, SnapshotImportSummary } from './snapshot.js';
+export { Span, SpanAttributeValue, SpanAttributes, SpanContext, SpanLink, Tracer } from './tracing.js';
+export * from './types.js';
+
+interface QueueItem<Q, T> {
     key: string;
     resolve: (value: T) => void;
     reject: (reason?: any) => void;
-    originalQuery: any;
+    originalQuery: Q;
+    enqueuedAt: number;
+    priority: Priority;
+    spanLinks: SpanContext[];
+    batchId: string | null;
 }
 
-export class BatcherError extends Error {
-    constructor(message: string, public readonly query: any, public readonly cause?: any) {
-        super(message);
-        this.name = 'BatcherError'; 
-        if (Error.captureStackTrace) {
-          Error.captureStackTrace(this, BatcherError)
-        }
-    }
+interface BatchTrace {
+    id: string;
+    span: Span | null;
+    errors: number;
+}
+
+interface SlotWaiter {
+    wake: () => void;
+    priority: Priority;
+    since: number;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, normal: 1, low: 2 };
+
+const LOG_LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+interface InFlightEntry<Q, T> {
+    item: QueueItem<Q, T>;
+    promise: Promise<T>;
+    waiters: number;
+}
+
+interface ScopeState<Q, T> {
+    context: unknown;
+    queue: QueueItem<Q, T>[];
+    inFlight: Map<string, InFlightEntry<Q, T>>;
+    privateEntries: Map<string, StoredValue<T>> | null;
+    scheduled: boolean;
+    cancelFlush: (() => void) | null;
+    windowStartedAt: number;
+    lastArrivalAt: number | null;
+    arrivalInterval: number | null;
+    highFlushAt: number;
+}
+
+function createScopeState<Q, T>(context: unknown, isolated: boolean): ScopeState<Q, T> {
+    return {
+        context,
+        queue: [],
+        inFlight: new Map(),
+        privateEntries: isolated ? new Map() : null,
+        scheduled: false,
+        cancelFlush: null,
+        windowStartedAt: 0,
+        lastArrivalAt: null,
+        arrivalInterval: null,
+        highFlushAt: Infinity
+    };
+}
+
+interface NotFoundTombstone {
+    readonly __smartBatcherNotFound: true;
+}
+
+const NOT_FOUND_TOMBSTONE: NotFoundTombstone = Object.freeze({ __smartBatcherNotFound: true });
+
+function isTombstone(value: unknown): value is NotFoundTombstone {
+    return typeof value === 'object' && value !== null && (value as NotFoundTombstone).__smartBatcherNotFound === true;
+}
+
+function rejected<T>(reason: Error): LoadSettledResult<T> {
+    return { status: 'rejected', reason };
+}
+
+function settledToResults<T>(results: LoadSettledResult<T>[]): (T | Error)[] {
+    return results.map(result => result.status === 'fulfilled' ? result.value : result.reason);
 }
 
-export class CacheError extends BatcherError {}
-export class BatchFunctionError extends BatcherError {}
-export class MemoryLimitError extends BatcherError {}
-export class NotFoundError extends BatcherError {}
-
-interface SmartBatcherOptions {
-    delay?: number;
-    memoryLimitMB?: number;
-    expirationTime?: number;
-    hashFn?: (key: any) => string;
-    queryNormalizer?: (query: any) => any;
-    cacheKeyFields?: string[];
-    debugMode?: boolean;
+interface EntryMeta<Q> {
+    query?: Q;
+    tags: string[];
+    ttl?: number;
 }
 
-class SmartBatcher<T> extends EventEmitter {
-    private queue: QueueItem<T>[] = [];
-    private scheduled: boolean = false;
-    private batchFunction: (queries: any[]) => Promise<(T | Error | null)[]>;
+interface LookupResult<T> {
+    entry: T | NotFoundTombstone | undefined;
+    tier: CacheTier;
+}
+
+interface FailedItem<Q, T> {
+    item: QueueItem<Q, T>;
+    error: any;
+}
+
+type EventName<Q, T> = keyof SmartBatcherEvents<Q, T>;
+type EventListener<Q, T, E extends EventName<Q, T>> = (data: SmartBatcherEvents<Q, T>[E]) => void;
+
+/**
+ * SmartBatcher - Efficiently batch and cache requests
+ */
+class SmartBatcher<Q = any, T = any, C = any> extends EventEmitter {
+    private root: ScopeState<Q, T> = createScopeState(undefined, false);
+    private activeScopes: Set<ScopeState<Q, T>> = new Set();
+    private batchFunction: BatchFunction<Q, T, C>;
     private delay: number;
-    private memoryStore: Record<string, T> = {};
+    private flushAtSize: number;
+    private maxWaitMs: number;
+    private adaptive: boolean;
+    private store: CacheStore<StoredValue<T> | NotFoundTombstone>;
+    private l1: L1Cache<StoredValue<T>> | null;
     private memoryLimitMB: number;
+    private codec: ValueCodec<T>;
+    private entrySizes: Map<string, number> = new Map();
+    private memoryUsage: number = 0;
+    private memorySeeded: boolean = false;
     private expirationTime: number;
-    private expirationTimers: Record<string, NodeJS.Timeout> = {};
+    private expiry: ExpiryQueue;
     private hashFn: (key: any) => string;
-    private queryNormalizer: (query: any) => any;
-    private cacheKeyFields: string[] | null;
-    private debugMode: boolean;
+    private queryNormalizer: (query: Q) => Q;
+    private cacheKeyFields: (keyof Q & string)[] | null;
+    private logger: Logger | null;
+    private logLevel: LogLevel;
+    private tracer: Tracer | null;
+    private maxBatchSize: number;
+    private maxConcurrentBatches: number;
+    private activeBatches: number = 0;
+    private batchSlotWaiters: SlotWaiter[] = [];
+    private highPriorityDelay: number;
+    private maxPriorityWaitMs: number;
+    private evictionPolicy: EvictionPolicy;
+    private maxEntries: number;
+    private evictionOrder: EvictionOrder;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private staleWhileRevalidate: number;
+    private refreshAhead: number;
+    private storedAt: Map<string, number> = new Map();
+    private entryMeta: Map<string, EntryMeta<Q>> = new Map();
+    private tagIndex: Map<string, Set<string>> = new Map();
+    private tagFn: ((query: Q, value: T) => string[]) | null;
+    private resultMode: ResultMode;
+    private resultKeyFn: ((result: T) => Q | Partial<Q> | string) | null;
+    private retry: Required<RetryOptions<Q>>;
+    private cacheNotFound: boolean;
+    private notFoundTTL: number;
+    private batchTimeoutMs: number;
+    private circuitBreaker: CircuitBreaker | null;
+    private serveStaleWhenOpen: boolean;
+    private disposed: boolean = false;
+    private runningChunks: Set<Promise<void>> = new Set();
+    private retrySleeps: Set<() => void> = new Set();
+    private name: string;
+    private invalidationBus: InvalidationTransport | null;
+    private readonly busId: string = randomUUID();
+    private unsubscribeBus: (() => void) | null = null;
+    private metrics: MetricsCollector = new MetricsCollector();
 
+    /**
+     * Creates a new SmartBatcher instance
+     * 
+     * @param batchFunction - Function that handles batched requests
+     * @param options - Configuration options
+     */
     constructor(
-        batchFunction: (queries: any[]) => Promise<(T | Error | null)[]>,
-        options: SmartBatcherOptions = {}
+        batchFunction: BatchFunction<Q, T, C>,
+        options: SmartBatcherOptions<Q, T> = {}
     ) {
         super();
         const { 
             delay = 0, 
+            flushAtSize = Infinity,
+            maxWaitMs = Infinity,
+            adaptive = false,
             memoryLimitMB = 1024, 
+            sizeOf = sizeof,
+            valueMode = 'reference',
+            serializer,
+            compress = false,
             expirationTime = 0, 
             hashFn = this.defaultHashFn,
             queryNormalizer = this.defaultQueryNormalizer,
             cacheKeyFields = null,
-            debugMode = false
+            debugMode = false,
+            logger = debugMode ? console : null,
+            logLevel = debugMode ? 'debug' : 'info',
+            tracer = null,
+            store = new MemoryCacheStore<T>(),
+            l1,
+            maxBatchSize = Infinity,
+            maxConcurrentBatches = Infinity,
+            highPriorityDelay = 0,
+            maxPriorityWaitMs = 1000,
+            evictionPolicy = 'lru',
+            maxEntries = Infinity,
+            staleWhileRevalidate = 0,
+            refreshAhead = 0,
+            resultMode = 'positional',
+            resultKeyFn = null,
+            tagFn = null,
+            retry,
+            cacheNotFound = false,
+            notFoundTTL = 60000,
+            batchTimeoutMs = 0,
+            circuitBreaker,
+            unrefTimers = true,
+            invalidationBus = null,
+            name = 'default'
         } = options;
 
+        if (!(flushAtSize >= 1)) {
+            throw new RangeError('flushAtSize must be at least 1');
+        }
+        if (!(maxWaitMs >= 0)) {
+            throw new RangeError('maxWaitMs must not be negative');
+        }
+        if (adaptive && !Number.isFinite(maxWaitMs)) {
+            throw new RangeError('adaptive requires a finite maxWaitMs');
+        }
+        if (!(maxBatchSize >= 1)) {
+            throw new RangeError('maxBatchSize must be at least 1');
+        }
+        if (!(maxConcurrentBatches >= 1)) {
+            throw new RangeError('maxConcurrentBatches must be at least 1');
+        }
+        if (!(maxEntries >= 1)) {
+            throw new RangeError('maxEntries must be at least 1');
+        }
+        if (!(refreshAhead >= 0 && refreshAhead < 1)) {
+            throw new RangeError('refreshAhead must be between 0 and 1');
+        }
+        if (compress && valueMode !== 'serialize') {
+            throw new RangeError("compress requires valueMode 'serialize'");
+        }
+        if (cacheNotFound && !(notFoundTTL > 0)) {
+            throw new RangeError('notFoundTTL must be positive when cacheNotFound is on');
+        }
+        if (l1 && !((l1.maxEntries ?? 1000) >= 1)) {
+            throw new RangeError('l1.maxEntries must be at least 1');
+        }
+        if (l1 && !((l1.expirationTime ?? 1000) >= 0)) {
+            throw new RangeError('l1.expirationTime must not be negative');
+        }
+        if (circuitBreaker && !((circuitBreaker.failureThreshold ?? 5) >= 1)) {
+            throw new RangeError('circuitBreaker.failureThreshold must be at least 1');
+        }
+        if (circuitBreaker && !((circuitBreaker.halfOpenMaxBatches ?? 1) >= 1)) {
+            throw new RangeError('circuitBreaker.halfOpenMaxBatches must be at least 1');
+        }
+
         this.batchFunction = batchFunction;
         this.delay = delay;
+        this.flushAtSize = flushAtSize;
+        this.maxWaitMs = maxWaitMs;
+        this.adaptive = adaptive;
         this.memoryLimitMB = memoryLimitMB;
+        this.codec = new ValueCodec(valueMode, sizeOf, serializer, compress);
         this.expirationTime = expirationTime;
         this.hashFn = hashFn;
         this.queryNormalizer = queryNormalizer;
         this.cacheKeyFields = cacheKeyFields;
-        this.debugMode = debugMode;
+        this.logger = logger;
+        this.logLevel = logLevel;
+        this.tracer = tracer;
+        this.store = store;
+        this.l1 = l1 ? new L1Cache(l1.maxEntries ?? 1000, l1.expirationTime ?? 1000) : null;
+        this.maxBatchSize = maxBatchSize;
+        this.maxConcurrentBatches = maxConcurrentBatches;
+        this.highPriorityDelay = highPriorityDelay;
+        this.maxPriorityWaitMs = maxPriorityWaitMs;
+        this.evictionPolicy = evictionPolicy;
+        this.evictionOrder = new EvictionOrder(evictionPolicy);
+        this.maxEntries = maxEntries;
+        this.staleWhileRevalidate = staleWhileRevalidate;
+        this.refreshAhead = refreshAhead;
+        this.resultMode = resultMode;
+        this.resultKeyFn = resultKeyFn;
+        this.tagFn = tagFn;
+        this.retry = {
+            maxAttempts: retry ? 3 : 1,
+            initialDelayMs: 100,
+            maxDelayMs: 10000,
+            factor: 2,
+            jitter: true,
+            shouldRetry: () => true,
+            ...retry
+        };
+        this.cacheNotFound = cacheNotFound;
+        this.notFoundTTL = notFoundTTL;
+        this.batchTimeoutMs = batchTimeoutMs;
+        this.circuitBreaker = circuitBreaker
+            ? new CircuitBreaker(
+                circuitBreaker.failureThreshold ?? 5,
+                circuitBreaker.cooldownMs ?? 30000,
+                circuitBreaker.halfOpenMaxBatches ?? 1,
+                (from, to) => {
+                    this.log(to === 'open' ? 'warn' : 'info', `SmartBatcher circuit ${to}`, { name: this.name, from, to });
+                    this.emit('circuitStateChange', { from, to });
+                }
+            )
+            : null;
+        this.serveStaleWhenOpen = circuitBreaker?.serveStale ?? false;
+        this.expiry = new ExpiryQueue((key, ttl) => {
+            this.expire(key, ttl).catch(error => {
+                // Retry on the next read, unless the key was written again meanwhile
+                if (this.expiry.expiresAt(key) === undefined) {
+                    this.expiry.markDue(key, ttl);
+                }
+                this.log('error', 'SmartBatcher could not expire entry', { key, error });
+                this.emit('expirationError', { key, error });
+            });
+        }, unrefTimers);
+        this.name = name;
+        this.invalidationBus = invalidationBus;
+        this.unsubscribeBus = invalidationBus?.subscribe(message => this.applyInvalidation(message)) ?? null;
+    }
+
+    on<E extends EventName<Q, T>>(event: E, listener: EventListener<Q, T, E>): this {
+        return super.on(event, listener);
     }
 
-    private defaultHashFn(query: any): string {
-        return hash(query);
+    once<E extends EventName<Q, T>>(event: E, listener: EventListener<Q, T, E>): this {
+        return super.once(event, listener);
+    }
+
+    off<E extends EventName<Q, T>>(event: E, listener: EventListener<Q, T, E>): this {
+        return super.off(event, listener);
+    }
+
+    emit<E extends EventName<Q, T>>(event: E, data: SmartBatcherEvents<Q, T>[E]): boolean {
+        return super.emit(event, data);
+    }
+
+    private defaultHashFn(query: unknown): string {
+        return hash(query as object);
     }
     
-    private defaultQueryNormalizer(query: any): any {
+    private defaultQueryNormalizer(query: Q): Q {
         return query;
     }
     
-    private extractCacheKey(query: any): any {
+    private extractCacheKey(query: Q): Q | Partial<Q> {
         if (!this.cacheKeyFields || this.cacheKeyFields.length === 0) {
             return query;
         }
         
-        const keyObject: Record<string, any> = {};
+        const keyObject: Partial<Q> = {};
         this.cacheKeyFields.forEach(field => {
             if (query[field] !== undefined) {
                 keyObject[field] = query[field];
@@ -95,233 +417,1308 @@ class SmartBatcher<T> extends EventEmitter {
         return keyObject;
     }
 
-    async load(query: any): Promise<T> {
+    /**
+     * Loads a single item, batching with other requests if necessary
+     * 
+     * @param query - The query to process
+     * @param options - Cancellation signal and timeout for this load
+     * @returns Promise that resolves with the result
+     * @throws CacheError, BatchFunctionError, NotFoundError, BatcherAbortError, BatcherTimeoutError
+     */
+    async load(query: Q, options: LoadOptions = {}): Promise<T> {
+        return this.loadInScope(this.currentScope(), query, options);
+    }
+
+    private async loadInScope(scope: ScopeState<Q, T>, query: Q, options: LoadOptions): Promise<T> {
+        this.assertActive(query);
+        return this.withSpan('smartBatcher.load', span => this.runLoad(scope, query, options, span));
+    }
+
+    private async runLoad(scope: ScopeState<Q, T>, query: Q, options: LoadOptions, span: Span | null): Promise<T> {
         const normalizedQuery = this.queryNormalizer(query);
         const cacheKeyData = this.extractCacheKey(normalizedQuery);
         const key = this.hashFn(cacheKeyData);
+        span?.setAttribute('smart_batcher.key', key);
 
-        if (this.debugMode) {
-            console.debug('SmartBatcher load:', { 
-                originalQuery: query,
-                normalizedQuery,
-                cacheKeyData,
-                key
-            });
+        this.log('debug', 'SmartBatcher load', {
+            originalQuery: query,
+            normalizedQuery,
+            cacheKeyData,
+            key
+        });
+
+        if (options.signal?.aborted) {
+            throw new BatcherAbortError(`Load aborted for key '${key}'`, normalizedQuery, options.signal.reason);
         }
 
+        let cachedValue: T | NotFoundTombstone | undefined;
+        let tier: CacheTier;
         try {
-            const cachedValue = await this.get(key);
-            if (cachedValue !== undefined) {
-                this.emit('cacheHit', { key, query: normalizedQuery, value: cachedValue });
-                return cachedValue;
-            }
+            ({ entry: cachedValue, tier } = await this.lookupInScope(scope, key));
         } catch (error) {
             throw new CacheError(`Error getting value from cache for key '${key}'`, normalizedQuery, error);
         }
+        span?.setAttribute('smart_batcher.cache_hit', cachedValue !== undefined);
+        if (isTombstone(cachedValue)) {
+            this.metrics.recordHit();
+            this.emit('notFoundHit', { key, query: normalizedQuery });
+            throw new NotFoundError(`Not found: ${key}`, normalizedQuery);
+        }
+        if (cachedValue !== undefined) {
+            this.metrics.recordHit();
+            span?.setAttribute('smart_batcher.cache_tier', tier);
+            this.emit('cacheHit', { key, query: normalizedQuery, value: cachedValue, tier });
+            if (tier !== 'request') {
+                this.checkFreshness(scope, key, normalizedQuery, cachedValue);
+            }
+            return cachedValue;
+        }
 
+        this.metrics.recordMiss();
         this.emit('cacheMiss', { key, query: normalizedQuery });
-        return new Promise((resolve, reject) => {
-            this.queue.push({ key, resolve, reject, originalQuery: normalizedQuery });
-            this.scheduleBatch();
-        });
+        if (this.isCircuitOpen()) {
+            throw new CircuitOpenError(`Circuit open, not loading key '${key}'`, normalizedQuery);
+        }
+        const { priority = 'normal' } = options;
+        const { entry, queued } = this.joinQueue(scope, key, normalizedQuery, priority);
+        if (span) {
+            entry.item.spanLinks.push(span.spanContext());
+        }
+        if (queued) {
+            this.scheduleBatch(scope, priority);
+        }
+        try {
+            return await this.attachCaller(scope, entry, normalizedQuery, options);
+        } finally {
+            if (entry.item.batchId) {
+                span?.setAttribute('smart_batcher.batch_id', entry.item.batchId);
+            }
+        }
+    }
+
+    /**
+     * Runs fn inside a span when a tracer is configured, recording a thrown
+     * error on the span
+     */
+    private async withSpan<R>(name: string, fn: (span: Span | null) => Promise<R>): Promise<R> {
+        if (!this.tracer) {
+            return fn(null);
+        }
+        const span = this.tracer.startSpan(name, { attributes: { 'smart_batcher.name': this.name } });
+        try {
+            return await fn(span);
+        } catch (error: any) {
+            span.recordException(error);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: error?.message });
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    private log(level: Exclude<LogLevel, 'silent'>, message: string, context: Record<string, unknown>): void {
+        if (this.logger && LOG_LEVEL_RANK[level] >= LOG_LEVEL_RANK[this.logLevel]) {
+            this.logger[level](message, context);
+        }
+    }
+
+    /**
+     * Returns the in-flight entry for key, queueing the query if there is none.
+     * queued tells the caller whether the batch needs scheduling
+     */
+    private joinQueue(scope: ScopeState<Q, T>, key: string, query: Q, priority: Priority): { entry: InFlightEntry<Q, T>; queued: boolean } {
+        const entry = scope.inFlight.get(key);
+        if (!entry) {
+            return { entry: this.trackInFlight(scope, key, query, scope.queue, priority), queued: true };
+        }
+        if (PRIORITY_RANK[priority] < PRIORITY_RANK[entry.item.priority]) {
+            entry.item.priority = priority;
+            return { entry, queued: scope.queue.includes(entry.item) };
+        }
+        return { entry, queued: false };
     }
 
-    async loadMany(queries: any[]): Promise<(T | Error)[]> {
-        const results: (T | Error)[] = [];
-        const queriesToFetch: any[] = [];
-        const queryIndexMap = new Map<number, number>();
-        const cacheKeys: string[] = [];
+    /**
+     * Creates a request scope with its own queue and deduplication map. Its
+     * batches pass context to batchFunction, read and fill the shared cache,
+     * and keep entries marked private with cacheEntry() to themselves
+     *
+     * @param context - Per-request data such as auth, passed to batchFunction
+     * @returns Scope exposing load, loadMany and flush
+     */
+    scope(context: C): BatcherScope<Q, T, C> {
+        const scope = createScopeState<Q, T>(context, true);
+        return {
+            context,
+            load: (query, options = {}) => this.loadInScope(scope, query, options),
+            loadMany: (queries, options = {}) => this.loadManyInScope(scope, queries, options).then(settledToResults),
+            loadManySettled: (queries, options = {}) => this.loadManyInScope(scope, queries, options),
+            flush: () => this.flushScope(scope)
+        };
+    }
+
+    private currentScope(): ScopeState<Q, T> {
+        const request = currentRequestScope();
+        if (!request) {
+            return this.root;
+        }
+        let scope = request.scopes.get(this) as ScopeState<Q, T> | undefined;
+        if (!scope) {
+            scope = createScopeState(request.context, true);
+            request.scopes.set(this, scope);
+        }
+        return scope;
+    }
+
+    private async lookupInScope(scope: ScopeState<Q, T>, key: string): Promise<LookupResult<T>> {
+        const privateValue = scope.privateEntries?.get(key);
+        if (privateValue !== undefined) {
+            return { entry: this.codec.decode(privateValue), tier: 'request' };
+        }
+        return this.lookup(key);
+    }
+
+    /**
+     * Loads multiple items, queueing cache misses into the same batch as load()
+     * 
+     * @param queries - Array of queries to process
+     * @param options - Cancellation signal and timeout applied to every item
+     * @returns Promise that resolves with results or errors
+     */
+    async loadMany(queries: Q[], options: LoadOptions = {}): Promise<(T | Error)[]> {
+        return settledToResults(await this.loadManyInScope(this.currentScope(), queries, options));
+    }
+
+    /**
+     * Like loadMany, but describes each outcome with a record in the style of
+     * Promise.allSettled, so results that are Error instances stay unambiguous
+     *
+     * @param queries - Array of queries to process
+     * @param options - Cancellation signal and timeout applied to every item
+     * @returns Promise that resolves with one record per query
+     */
+    async loadManySettled(queries: Q[], options: LoadOptions = {}): Promise<LoadSettledResult<T>[]> {
+        return this.loadManyInScope(this.currentScope(), queries, options);
+    }
+
+    private async loadManyInScope(scope: ScopeState<Q, T>, queries: Q[], options: LoadOptions): Promise<LoadSettledResult<T>[]> {
+        this.assertActive();
+        return this.withSpan('smartBatcher.loadMany', span => this.runLoadMany(scope, queries, options, span));
+    }
+
+    private async runLoadMany(scope: ScopeState<Q, T>, queries: Q[], options: LoadOptions, span: Span | null): Promise<LoadSettledResult<T>[]> {
+        const { priority = 'normal' } = options;
+        const results: LoadSettledResult<T>[] = [];
+        const misses: { index: number; key: string; query: Q }[] = [];
         const normalizedQueries = queries.map(q => this.queryNormalizer(q));
 
         for (let i = 0; i < normalizedQueries.length; i++) {
             const query = normalizedQueries[i];
             const cacheKeyData = this.extractCacheKey(query);
             const key = this.hashFn(cacheKeyData);
-            cacheKeys.push(key);
-
-            if (this.debugMode) {
-                console.debug('SmartBatcher loadMany item:', { 
-                    originalQuery: queries[i],
-                    normalizedQuery: query,
-                    cacheKeyData,
-                    key
-                });
+
+            this.log('debug', 'SmartBatcher loadMany item', {
+                originalQuery: queries[i],
+                normalizedQuery: query,
+                cacheKeyData,
+                key
+            });
+
+            if (options.signal?.aborted) {
+                results[i] = rejected(new BatcherAbortError(`Load aborted for key '${key}'`, query, options.signal.reason));
+                continue;
             }
 
+            let cachedValue: T | NotFoundTombstone | undefined;
+            let tier: CacheTier;
             try {
-                const cachedValue = await this.get(key);
-                if (cachedValue !== undefined) {
-                    this.emit('cacheHit', { key, query, value: cachedValue });
-                    results[i] = cachedValue;
-                } else {
-                    this.emit('cacheMiss', { key, query });
-                    queriesToFetch.push(query);
-                    queryIndexMap.set(queriesToFetch.length - 1, i);
-                    results[i] = new NotFoundError(`Key not found in cache: ${key}`, query);
-                }
+                ({ entry: cachedValue, tier } = await this.lookupInScope(scope, key));
             } catch (error) {
-                queriesToFetch.push(query);
-                queryIndexMap.set(queriesToFetch.length - 1, i);
-                results[i] = new CacheError(`Error getting value from cache for key '${key}'`, query, error);
+                results[i] = rejected(new CacheError(`Error getting value from cache for key '${key}'`, query, error));
+                continue;
+            }
+            if (isTombstone(cachedValue)) {
+                this.metrics.recordHit();
+                this.emit('notFoundHit', { key, query });
+                results[i] = rejected(new NotFoundError(`Not found: ${key}`, query));
+                continue;
+            }
+            if (cachedValue !== undefined) {
+                this.metrics.recordHit();
+                this.emit('cacheHit', { key, query, value: cachedValue, tier });
+                if (tier !== 'request') {
+                    this.checkFreshness(scope, key, query, cachedValue);
+                }
+                results[i] = { status: 'fulfilled', value: cachedValue };
+                continue;
+            }
+            this.metrics.recordMiss();
+            this.emit('cacheMiss', { key, query });
+            if (this.isCircuitOpen()) {
+                results[i] = rejected(new CircuitOpenError(`Circuit open, not loading key '${key}'`, query));
+                continue;
             }
+            misses.push({ index: i, key, query });
         }
 
-        if (queriesToFetch.length === 0) {
-            return results;
+        // Misses are queued together once every lookup is done, so a slow
+        // store cannot split them across batch windows
+        let queued = false;
+        const items: QueueItem<Q, T>[] = [];
+        const pending = misses.map(({ index, key, query }) => {
+            const joined = this.joinQueue(scope, key, query, priority);
+            queued = queued || joined.queued;
+            items.push(joined.entry.item);
+            if (span) {
+                joined.entry.item.spanLinks.push(span.spanContext());
+            }
+            return this.attachCaller(scope, joined.entry, query, options).then(
+                value => { results[index] = { status: 'fulfilled', value }; },
+                error => { results[index] = rejected(error); }
+            );
+        });
+        if (queued) {
+            this.scheduleBatch(scope, priority);
         }
+        await Promise.all(pending);
 
-        try {
-            const batchResults = await this.batchFunction(queriesToFetch);
+        span?.setAttributes({
+            'smart_batcher.keys': queries.length,
+            'smart_batcher.cache_hits': queries.length - misses.length,
+            'smart_batcher.errors': results.filter(result => result.status === 'rejected').length,
+            'smart_batcher.batch_ids': [...new Set(items.map(item => item.batchId).filter((id): id is string => id !== null))]
+        });
+        return results;
+    }
+
+    private checkFreshness(scope: ScopeState<Q, T>, key: string, query: Q, value: T): void {
+        const storedAt = this.storedAt.get(key);
+        const ttl = this.entryMeta.get(key)?.ttl ?? this.expirationTime;
+        if (ttl <= 0 || storedAt === undefined) {
+            return;
+        }
+
+        const age = Date.now() - storedAt;
+        if (age >= ttl) {
+            this.emit('staleHit', { key, query, value, age });
+            this.revalidate(scope, key, query);
+        } else if (this.refreshAhead > 0 && age >= ttl * this.refreshAhead) {
+            this.emit('refreshAhead', { key, query, age });
+            this.revalidate(scope, key, query);
+        }
+    }
+
+    private revalidate(scope: ScopeState<Q, T>, key: string, query: Q): void {
+        if (scope.inFlight.has(key) || this.isCircuitOpen()) {
+            return;
+        }
+        const entry = this.trackInFlight(scope, key, query, scope.queue, 'low');
+        entry.waiters++;
+        entry.promise.catch(error => {
+            this.log('warn', 'SmartBatcher refresh failed', { key, batchId: entry.item.batchId, error });
+            this.emit('refreshError', { key, query, error });
+        });
+        this.scheduleBatch(scope, 'low');
+    }
+
+    private isCircuitOpen(): boolean {
+        return this.circuitBreaker?.getState() === 'open';
+    }
 
-            if (!Array.isArray(batchResults)) {
-                throw new BatchFunctionError("batchFunction must return an array", queriesToFetch);
+    private trackInFlight(
+        scope: ScopeState<Q, T>,
+        key: string,
+        query: Q,
+        target: QueueItem<Q, T>[],
+        priority: Priority = 'normal'
+    ): InFlightEntry<Q, T> {
+        let item!: QueueItem<Q, T>;
+        const promise = new Promise<T>((resolve, reject) => {
+            item = { key, resolve, reject, originalQuery: query, enqueuedAt: Date.now(), priority, spanLinks: [], batchId: null };
+            target.push(item);
+        });
+        const entry: InFlightEntry<Q, T> = { item, promise, waiters: 0 };
+        scope.inFlight.set(key, entry);
+        this.activeScopes.add(scope);
+        const release = () => {
+            if (scope.inFlight.get(key) === entry) {
+                scope.inFlight.delete(key);
+            }
+            if (scope.inFlight.size === 0) {
+                this.activeScopes.delete(scope);
             }
+        };
+        promise.then(release, release);
+        return entry;
+    }
 
-            batchResults.forEach((result, index) => {
-                const originalIndex = queryIndexMap.get(index)!;
-                const key = cacheKeys[originalIndex];
-
-                if (result instanceof Error) {
-                    results[originalIndex] = result;
-                } else if (result !== null) {
-                    results[originalIndex] = result;
-                    this.setValue(key, result).catch(setError => {
-                        results[originalIndex] = new CacheError(`Error setting value in cache for key '${key}'`, queriesToFetch[index], setError);
-                    });
-                } else {
-                    results[originalIndex] = new NotFoundError(`Not found: ${key}`, queriesToFetch[index]);
+    private attachCaller(scope: ScopeState<Q, T>, entry: InFlightEntry<Q, T>, query: Q, options: LoadOptions): Promise<T> {
+        const { signal, timeoutMs = 0 } = options;
+        entry.waiters++;
+        const result = this.codec.copiesValues ? entry.promise.then(value => this.codec.copy(value)) : entry.promise;
+        if (!signal && timeoutMs <= 0) {
+            return result;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            let settled = false;
+            let timer: NodeJS.Timeout | undefined;
+            const cleanup = () => {
+                settled = true;
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const detach = (error: BatcherError) => {
+                if (settled) {
+                    return;
                 }
-            });
-        } catch (batchError: any) {
-            queriesToFetch.forEach((query, index) => {
-                const originalIndex = queryIndexMap.get(index)!;
-                results[originalIndex] = new BatchFunctionError(`Error in batchFunction`, query, batchError);
-            });
+                cleanup();
+                entry.waiters--;
+                if (entry.waiters === 0) {
+                    this.cancelQueued(scope, entry.item, error);
+                }
+                reject(error);
+            };
+            const onAbort = () => detach(new BatcherAbortError(`Load aborted for key '${entry.item.key}'`, query, signal?.reason));
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => detach(new BatcherTimeoutError(`Load timed out after ${timeoutMs}ms for key '${entry.item.key}'`, query)), timeoutMs);
+            }
+            result.then(
+                value => { cleanup(); resolve(value); },
+                error => { cleanup(); reject(error); }
+            );
+        });
+    }
+
+    private cancelQueued(scope: ScopeState<Q, T>, item: QueueItem<Q, T>, error: BatcherError): void {
+        const index = scope.queue.indexOf(item);
+        if (index !== -1) {
+            scope.queue.splice(index, 1);
+            item.reject(error);
         }
+    }
 
-        return results;
+    private splitIntoChunks<I>(items: I[]): I[][] {
+        if (items.length <= this.maxBatchSize) {
+            return [items];
+        }
+        const chunks: I[][] = [];
+        for (let i = 0; i < items.length; i += this.maxBatchSize) {
+            chunks.push(items.slice(i, i + this.maxBatchSize));
+        }
+        return chunks;
     }
 
-    private scheduleBatch(): void {
-        if (!this.scheduled) {
-            this.scheduled = true;
-            if (this.delay > 0) {
-                setTimeout(() => this.executeBatch(), this.delay);
+    private async withBatchSlot<R>(task: () => Promise<R>, priority: Priority): Promise<R> {
+        if (this.activeBatches >= this.maxConcurrentBatches) {
+            await new Promise<void>(wake => this.batchSlotWaiters.push({ wake, priority, since: Date.now() }));
+        } else {
+            this.activeBatches++;
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.nextSlotWaiter();
+            if (next) {
+                next.wake();
             } else {
-                setImmediate(() => this.executeBatch());
+                this.activeBatches--;
             }
         }
     }
 
-    private async executeBatch(): Promise<void> {
-        this.scheduled = false;
-        const currentQueue = this.queue;
-        this.queue = [];
+    private nextSlotWaiter(): SlotWaiter | undefined {
+        const now = Date.now();
+        const rank = (waiter: SlotWaiter) => now - waiter.since >= this.maxPriorityWaitMs ? -1 : PRIORITY_RANK[waiter.priority];
+        let best = -1;
+        this.batchSlotWaiters.forEach((waiter, index) => {
+            if (best === -1 || rank(waiter) < rank(this.batchSlotWaiters[best])) {
+                best = index;
+            }
+        });
+        return best === -1 ? undefined : this.batchSlotWaiters.splice(best, 1)[0];
+    }
 
-        if (this.debugMode) {
-            console.debug('SmartBatcher executeBatch:', { 
-                queueLength: currentQueue.length,
-                queries: currentQueue.map(item => item.originalQuery)
-            });
+    private scheduleBatch(scope: ScopeState<Q, T>, priority: Priority = 'normal'): void {
+        const now = Date.now();
+        if (this.adaptive) {
+            if (scope.lastArrivalAt !== null) {
+                const gap = now - scope.lastArrivalAt;
+                scope.arrivalInterval = scope.arrivalInterval === null ? gap : scope.arrivalInterval * 0.8 + gap * 0.2;
+            }
+            scope.lastArrivalAt = now;
+        }
+        if (scope.queue.length >= this.flushAtSize) {
+            this.executeBatch(scope);
+            return;
+        }
+        if (priority === 'high') {
+            scope.highFlushAt = Math.min(scope.highFlushAt, now + this.highPriorityDelay);
+        }
+        const wasScheduled = scope.scheduled;
+        if (!wasScheduled) {
+            scope.scheduled = true;
+            scope.windowStartedAt = now;
+        }
+        if (wasScheduled && !this.adaptive && priority !== 'high') {
+            return;
         }
+        const windowEndsAt = this.adaptive ? now + this.adaptiveWindow(scope) : scope.windowStartedAt + this.delay;
+        const flushAt = Math.min(windowEndsAt, scope.windowStartedAt + this.maxWaitMs, scope.highFlushAt);
+        this.armFlushTimer(scope, flushAt - now);
+    }
+
+    private adaptiveWindow(scope: ScopeState<Q, T>): number {
+        if (scope.arrivalInterval === null) {
+            return 0;
+        }
+        const expectedWait = scope.arrivalInterval * 2;
+        return expectedWait <= this.maxWaitMs ? expectedWait : 0;
+    }
+
+    private armFlushTimer(scope: ScopeState<Q, T>, ms: number): void {
+        scope.cancelFlush?.();
+        if (ms > 0) {
+            const timer = setTimeout(() => this.executeBatch(scope), ms);
+            scope.cancelFlush = () => clearTimeout(timer);
+        } else {
+            const immediate = setImmediate(() => this.executeBatch(scope));
+            scope.cancelFlush = () => clearImmediate(immediate);
+        }
+    }
 
-        const queries = currentQueue.map(item => item.originalQuery);
+    /**
+     * Sends the pending queue to batchFunction now instead of waiting for the
+     * batch window
+     *
+     * @returns Promise that resolves once every flushed load has settled
+     */
+    async flush(): Promise<void> {
+        return this.flushScope(this.currentScope());
+    }
+
+    private async flushScope(scope: ScopeState<Q, T>): Promise<void> {
+        this.assertActive();
+        const pending = scope.queue.map(item => scope.inFlight.get(item.key)?.promise);
+        await this.executeBatch(scope);
+        await Promise.allSettled(pending);
+    }
+
+    private async executeBatch(scope: ScopeState<Q, T>): Promise<void> {
+        scope.cancelFlush?.();
+        scope.cancelFlush = null;
+        scope.scheduled = false;
+        scope.highFlushAt = Infinity;
+        const currentQueue = scope.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+        scope.queue = [];
+        if (currentQueue.length === 0) {
+            return;
+        }
+
+        this.log('debug', 'SmartBatcher executeBatch', {
+            queueLength: currentQueue.length,
+            queries: currentQueue.map(item => item.originalQuery)
+        });
+
+        await Promise.all(this.splitIntoChunks(currentQueue).map(chunk =>
+            this.startChunk(scope, chunk)
+        ));
+    }
+
+    /**
+     * Waits until the queue is empty and every running batch has settled,
+     * including loads queued while waiting
+     */
+    async drain(): Promise<void> {
+        while (!this.disposed && (this.activeScopes.size > 0 || this.runningChunks.size > 0)) {
+            const scopes = [...this.activeScopes];
+            const pending = [
+                ...this.runningChunks,
+                ...scopes.flatMap(scope => [...scope.inFlight.values()].map(entry => entry.promise))
+            ];
+            await Promise.all(scopes.map(scope => this.executeBatch(scope)));
+            await Promise.allSettled(pending);
+        }
+    }
+
+    /**
+     * Shuts the batcher down: pending loads are rejected with
+     * BatcherDisposedError, every timer is cleared and later calls reject.
+     * Cached entries are left in the store
+     */
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.activeScopes.forEach(scope => {
+            scope.cancelFlush?.();
+            scope.cancelFlush = null;
+            scope.scheduled = false;
+            scope.queue = [];
+            scope.inFlight.forEach(({ item }) => item.reject(
+                new BatcherDisposedError(`Batcher disposed before key '${item.key}' was loaded`, item.originalQuery)
+            ));
+        });
+        this.retrySleeps.forEach(wake => wake());
+        // Chunks waiting for a slot wake up holding one, see the batcher is
+        // disposed and return without calling batchFunction
+        const waiters = this.batchSlotWaiters.splice(0);
+        this.activeBatches += waiters.length;
+        waiters.forEach(waiter => waiter.wake());
+        this.expiry.clear();
+        this.unsubscribeBus?.();
+        this.unsubscribeBus = null;
+    }
+
+    /**
+     * Drains pending batches, then disposes the batcher. Called by `await using`
+     */
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.drain();
+        this.dispose();
+    }
+
+    private assertActive(query?: Q): void {
+        if (this.disposed) {
+            throw new BatcherDisposedError('Batcher has been disposed', query);
+        }
+    }
+
+    private startChunk(scope: ScopeState<Q, T>, chunk: QueueItem<Q, T>[]): Promise<void> {
+        const running = this.runChunk(scope, chunk);
+        this.runningChunks.add(running);
+        const release = () => this.runningChunks.delete(running);
+        running.then(release, release);
+        return running;
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => {
+                clearTimeout(timer);
+                this.retrySleeps.delete(wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, ms);
+            this.retrySleeps.add(wake);
+        });
+    }
+
+    private async runChunk(scope: ScopeState<Q, T>, chunk: QueueItem<Q, T>[]): Promise<void> {
+        const batch = this.startBatchTrace(chunk);
+        const startedAt = Date.now();
+        let pending = chunk;
+        let attempt = 1;
         try {
-            const results = await this.batchFunction(queries);
+            while (pending.length > 0) {
+                const priority = pending.reduce<Priority>(
+                    (highest, item) => PRIORITY_RANK[item.priority] < PRIORITY_RANK[highest] ? item.priority : highest,
+                    'low'
+                );
+                const failed = await this.withBatchSlot(() => this.executeChunk(scope, pending, attempt, batch), priority);
+                if (failed.length === 0) {
+                    return;
+                }
 
-            if (!Array.isArray(results)) {
-                const error = new BatchFunctionError("batchFunction must return an array", queries);
-                currentQueue.forEach(item => item.reject(error));
-                return;
-            }
-            results.forEach((result, index) => {
-                const item = currentQueue[index];
-                if (!item) {
-                    return; 
+                const delayMs = this.getRetryDelay(attempt);
+                attempt++;
+                this.log('warn', 'SmartBatcher retrying batch', { batchId: batch.id, attempt, delayMs, failed: failed.length });
+                batch.span?.addEvent('retry', { 'smart_batcher.attempt': attempt, 'smart_batcher.failed': failed.length });
+                this.emit('retry', {
+                    batchId: batch.id,
+                    attempt,
+                    delayMs,
+                    queries: failed.map(({ item }) => item.originalQuery),
+                    errors: failed.map(({ error }) => error)
+                });
+                await this.sleep(delayMs);
+                if (this.disposed) {
+                    return;
                 }
+                pending = failed.map(({ item }) => item);
+            }
+        } finally {
+            batch.span?.setAttributes({ 'smart_batcher.attempts': attempt, 'smart_batcher.errors': batch.errors });
+            if (batch.errors > 0) {
+                batch.span?.setStatus({ code: SPAN_STATUS_ERROR, message: `${batch.errors} of ${chunk.length} queries failed` });
+            }
+            batch.span?.end();
+            this.emit('batchEnd', { batchId: batch.id, size: chunk.length, attempts: attempt, errors: batch.errors, durationMs: Date.now() - startedAt });
+        }
+    }
 
-                if (result instanceof Error) {
-                    item.reject(result);
-                } else if (result !== null) {
-                    this.setValue(item.key, result)
-                        .then(() => item.resolve(result))
-                        .catch(error => item.reject(new CacheError(`Error setting value in cache during batch for key '${item.key}'`, item.originalQuery, error)));
+    private startBatchTrace(chunk: QueueItem<Q, T>[]): BatchTrace {
+        const id = randomUUID();
+        const links: SpanLink[] = [];
+        chunk.forEach(item => {
+            item.batchId = id;
+            item.spanLinks.forEach(context => links.push({ context }));
+        });
+        const span = this.tracer?.startSpan('smartBatcher.batch', {
+            attributes: {
+                'smart_batcher.name': this.name,
+                'smart_batcher.batch_id': id,
+                'smart_batcher.batch_size': chunk.length
+            },
+            links
+        }) ?? null;
+        const queries = chunk.map(item => item.originalQuery);
+        this.log('debug', 'SmartBatcher batch', { batchId: id, size: chunk.length, queries });
+        this.emit('batchStart', { batchId: id, size: chunk.length, queries });
+        return { id, span, errors: 0 };
+    }
+
+    /**
+     * Rejects a query of the batch, tagging batcher errors with the batchId
+     */
+    private failItem(batch: BatchTrace, item: QueueItem<Q, T>, error: any): void {
+        if (error instanceof BatcherError) {
+            error.batchId = batch.id;
+        }
+        if (!(error instanceof NotFoundError)) {
+            batch.errors++;
+        }
+        item.reject(error);
+    }
 
+    private getRetryDelay(attempt: number): number {
+        const { initialDelayMs, maxDelayMs, factor, jitter } = this.retry;
+        const delayMs = Math.min(maxDelayMs, initialDelayMs * Math.pow(factor, attempt - 1));
+        return jitter ? delayMs / 2 + Math.random() * delayMs / 2 : delayMs;
+    }
+
+    private canRetry(error: any, query: Q, attempt: number): boolean {
+        return attempt < this.retry.maxAttempts && this.retry.shouldRetry(error, query);
+    }
+
+    private async executeChunk(scope: ScopeState<Q, T>, chunk: QueueItem<Q, T>[], attempt: number, batch: BatchTrace): Promise<FailedItem<Q, T>[]> {
+        const queries = chunk.map(item => item.originalQuery);
+        const failed: FailedItem<Q, T>[] = [];
+        const writes: Promise<void>[] = [];
+        let results: BatchItemResult<T>[] | null;
+        if (this.disposed) {
+            return failed;
+        }
+        const startedAt = Date.now();
+        if (attempt === 1) {
+            chunk.forEach(item => this.metrics.recordQueueWait(startedAt - item.enqueuedAt));
+        }
+        if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+            chunk.forEach(item => this.failItem(
+                batch,
+                item,
+                new CircuitOpenError(`Circuit open, batch not sent for key '${item.key}'`, item.originalQuery)
+            ));
+            return failed;
+        }
+        let responded = false;
+        try {
+            const response = await this.callBatchFunction(queries, scope);
+            responded = true;
+            this.circuitBreaker?.recordSuccess();
+            results = this.matchResults(chunk, response);
+        } catch (error: any) {
+            if (!responded) {
+                this.circuitBreaker?.recordFailure();
+            }
+            this.metrics.recordBatch(chunk.length, Date.now() - startedAt);
+            chunk.forEach(item => {
+                if (this.canRetry(error, item.originalQuery, attempt)) {
+                    failed.push({ item, error });
+                } else if (error instanceof BatcherTimeoutError) {
+                    this.failItem(batch, item, new BatcherTimeoutError(error.message, item.originalQuery));
                 } else {
-                    item.reject(new NotFoundError(`Not found: ${item.key}`, item.originalQuery));
+                    this.failItem(batch, item, new BatchFunctionError("Error executing batchFunction", item.originalQuery, error));
                 }
             });
+            if (failed.length < chunk.length) {
+                this.log('error', 'SmartBatcher batchFunction failed', { batchId: batch.id, attempt, size: chunk.length, error });
+            }
+            return failed;
+        }
 
-        } catch (error: any) {
-            currentQueue.forEach(item =>
-                item.reject(new BatchFunctionError("Error executing batchFunction", item.originalQuery, error))
+        this.metrics.recordBatch(chunk.length, Date.now() - startedAt);
+        if (this.disposed) {
+            return failed;
+        }
+
+        if (!results) {
+            const error = new BatchFunctionError(
+                this.resultMode === 'keyed'
+                    ? "batchFunction must return a Map or an object in keyed mode"
+                    : "batchFunction must return an array",
+                queries
             );
+            chunk.forEach(item => this.failItem(batch, item, error));
+            return failed;
         }
+        results.forEach((result, index) => {
+            const item = chunk[index];
+
+            if (result instanceof Error) {
+                if (this.canRetry(result, item.originalQuery, attempt)) {
+                    failed.push({ item, error: result });
+                } else {
+                    this.failItem(batch, item, result);
+                }
+            } else if (result !== null) {
+                const value = isCacheEntry(result) ? result.value : result;
+                // A throwing tagFn or valueMode encoding must reject this item
+                // only, not escape the batch and leave the remaining items unsettled
+                let tags: string[];
+                let stored: StoredValue<T>;
+                let delivered: T;
+                try {
+                    stored = this.codec.encode(value);
+                    delivered = this.codec.delivered(value, stored);
+                    if (isCacheEntry(result) && result.private) {
+                        scope.privateEntries?.set(item.key, stored);
+                        item.resolve(delivered);
+                        return;
+                    }
+                    tags = [
+                        ...(isCacheEntry(result) ? result.tags ?? [] : []),
+                        ...(this.tagFn ? this.tagFn(item.originalQuery, value) : [])
+                    ];
+                } catch (error) {
+                    this.failItem(batch, item, new CacheError(`Error caching value during batch for key '${item.key}'`, item.originalQuery, error));
+                    return;
+                }
+                const ttl = isCacheEntry(result) ? result.ttl : undefined;
+                writes.push(this.storeValue(item.key, value, { tags, query: item.originalQuery, ttl }, stored)
+                    .then(() => item.resolve(delivered))
+                    .catch(error => {
+                        if (error instanceof MemoryLimitError && this.evictionPolicy !== 'reject') {
+                            item.resolve(delivered);
+                            return;
+                        }
+                        this.failItem(batch, item, new CacheError(`Error setting value in cache during batch for key '${item.key}'`, item.originalQuery, error));
+                    }));
+
+            } else if (this.cacheNotFound) {
+                const rejectNotFound = () => this.failItem(batch, item, new NotFoundError(`Not found: ${item.key}`, item.originalQuery));
+                writes.push(this.setNotFound(item.key).then(rejectNotFound, rejectNotFound));
+            } else {
+                this.failItem(batch, item, new NotFoundError(`Not found: ${item.key}`, item.originalQuery));
+            }
+        });
+        await Promise.all(writes);
+        return failed;
     }
 
+    private callBatchFunction(queries: Q[], scope: ScopeState<Q, T>): Promise<BatchResult<T>> {
+        // Batches outside a scope call batchFunction with the queries only
+        const call = () => scope === this.root
+            ? (this.batchFunction as (queries: Q[]) => Promise<BatchResult<T>>)(queries)
+            : this.batchFunction(queries, scope.context as C);
+        if (this.batchTimeoutMs <= 0) {
+            return call();
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new BatcherTimeoutError(`Batch timed out after ${this.batchTimeoutMs}ms`, queries)),
+                this.batchTimeoutMs
+            );
+        });
+        return Promise.race([call(), timeout]).finally(() => clearTimeout(timer));
+    }
+
+    private matchResults(chunk: QueueItem<Q, T>[], results: BatchResult<T>): BatchItemResult<T>[] | null {
+        if (this.resultMode === 'positional') {
+            if (!Array.isArray(results)) {
+                return null;
+            }
+            return chunk.map((item, index) => index < results.length
+                ? results[index]
+                : new BatchResultMismatchError(`batchFunction returned ${results.length} results for ${chunk.length} queries`, item.originalQuery)
+            );
+        }
+
+        const pendingKeys = new Set(chunk.map(item => item.key));
+        let entries: [any, BatchItemResult<T>][];
+        if (Array.isArray(results)) {
+            if (!this.resultKeyFn) {
+                return null;
+            }
+            const resultKeyFn = this.resultKeyFn;
+            entries = results
+                .filter(result => result !== null && !(result instanceof Error))
+                .map(result => [resultKeyFn(isCacheEntry(result) ? result.value : result as T), result]);
+        } else if (results instanceof Map) {
+            entries = Array.from(results.entries());
+        } else if (results !== null && typeof results === 'object') {
+            entries = Object.entries(results);
+        } else {
+            return null;
+        }
+
+        const resultsByKey = new Map<string, BatchItemResult<T>>();
+        entries.forEach(([entryKey, result]) => {
+            resultsByKey.set(this.toResultKey(entryKey, pendingKeys), result);
+        });
+        return chunk.map(item => resultsByKey.has(item.key) ? resultsByKey.get(item.key)! : null);
+    }
+
+    private toResultKey(entryKey: any, pendingKeys: Set<string>): string {
+        if (typeof entryKey === 'string' && pendingKeys.has(entryKey)) {
+            return entryKey;
+        }
+        return this.hashFn(this.extractCacheKey(this.queryNormalizer(entryKey)));
+    }
+
+    /**
+     * Returns hit/miss counts, batch statistics and cache size
+     */
+    async getStats(): Promise<BatcherStats> {
+        await this.seedMemoryUsage();
+        return this.metrics.snapshot(this.entrySizes.size, this.memoryUsage);
+    }
+
+    /**
+     * Estimated size of the cached entries in bytes, as checked against
+     * memoryLimitMB. Kept as a running total, so this does not walk the store
+     */
+    async getMemoryUsage(): Promise<number> {
+        await this.seedMemoryUsage();
+        return this.memoryUsage;
+    }
+
+    /**
+     * Exports getStats() in the Prometheus text exposition format
+     */
+    async toPrometheus(options: PrometheusOptions = {}): Promise<string> {
+        return formatPrometheus(await this.getStats(), { name: this.name, ...options });
+    }
+
+    /**
+     * Writes every cached entry as NDJSON, with its remaining expiration time.
+     * A stream passed in is left open; a file path is created and closed
+     *
+     * @param target - Writable stream or file path
+     * @returns Number of exported entries
+     */
+    async exportSnapshot(target: Writable | string): Promise<number> {
+        this.assertActive();
+        const entries = await this.store.all();
+        const now = Date.now();
+        const snapshot: SnapshotEntry<T>[] = Object.keys(entries).map(key => {
+            const entry = entries[key];
+            const expiresAt = this.expiry.expiresAt(key);
+            return {
+                key,
+                ...(isTombstone(entry) ? { notFound: true } : { value: this.codec.decode(entry) }),
+                ttl: expiresAt === undefined ? null : Math.max(0, expiresAt - now),
+                age: now - (this.storedAt.get(key) ?? now),
+                exportedAt: now
+            };
+        });
+        const exported = await writeSnapshot(target, snapshot);
+        this.emit('snapshotExported', { exported });
+        return exported;
+    }
+
+    /**
+     * Loads entries from an NDJSON snapshot, recreating their expiry timers.
+     * Expired entries are skipped and entries over the memory limit are rejected
+     *
+     * @param source - Readable stream or file path
+     * @returns Counts of imported, expired and rejected entries
+     */
+    async importSnapshot(source: Readable | string): Promise<SnapshotImportSummary> {
+        this.assertActive();
+        const summary: SnapshotImportSummary = { imported: 0, expired: 0, rejected: 0 };
+        for await (const entry of readSnapshot<T>(source)) {
+            // ttl and age were taken at export; the time since then counts too
+            const elapsed = entry.exportedAt === undefined ? 0 : Math.max(0, Date.now() - entry.exportedAt);
+            const ttl = entry.ttl === null ? null : entry.ttl - elapsed;
+            if (ttl !== null && ttl <= 0) {
+                summary.expired++;
+                continue;
+            }
+            try {
+                await this.writeEntry(entry.key, entry.notFound ? NOT_FOUND_TOMBSTONE : this.codec.encode(entry.value as T), ttl ?? 0);
+                this.storedAt.set(entry.key, Date.now() - entry.age - elapsed);
+                summary.imported++;
+            } catch (error) {
+                if (!(error instanceof MemoryLimitError)) {
+                    throw error;
+                }
+                summary.rejected++;
+            }
+        }
+        this.emit('snapshotImported', summary);
+        return summary;
+    }
+
+    /**
+     * Clears the entire cache
+     */
     async clearCache(): Promise<void> {
+        this.assertActive();
         await this.restartAllValues();
     }
 
-    private async checkMemoryAvailability(newData: Record<string, T>): Promise<boolean> {
-        const currentSize = sizeof(this.memoryStore);
-        const newDataSize = sizeof(newData);
-        const totalSizeMB = (currentSize + newDataSize) / 1024 / 1024;
-        return totalSizeMB <= this.memoryLimitMB;
+    private entrySize(key: string, value: StoredValue<T> | NotFoundTombstone): number {
+        return sizeof(key) + (isTombstone(value) ? sizeof(value) : this.codec.sizeOf(value));
+    }
+
+    private trackSize(key: string, size: number | null): void {
+        this.memoryUsage -= this.entrySizes.get(key) ?? 0;
+        this.entrySizes.delete(key);
+        if (size !== null) {
+            this.entrySizes.set(key, size);
+            this.memoryUsage += size;
+        }
     }
 
-    private setExpiration(key: string): void {
-        if (this.expirationTime > 0) {
-            if (this.expirationTimers[key]) {
-                clearTimeout(this.expirationTimers[key]);
+    // Entries already in the store, e.g. from a FileCacheStore, are measured
+    // once; after that every write and delete updates the total
+    private async seedMemoryUsage(): Promise<void> {
+        if (this.memorySeeded) {
+            return;
+        }
+        const entries = await this.store.all();
+        if (this.memorySeeded) {
+            return;
+        }
+        this.memorySeeded = true;
+        Object.keys(entries).forEach(key => {
+            if (!this.entrySizes.has(key)) {
+                this.trackSize(key, this.entrySize(key, entries[key]));
+                this.evictionOrder.add(key);
             }
-            this.expirationTimers[key] = setTimeout(async () => {
-                await this.deleteValue(key);
-                this.emit('expiredValue', { key });
-            }, this.expirationTime);
+        });
+    }
+
+    private setExpiration(key: string, ttl: number): void {
+        if (ttl > 0) {
+            this.expiry.schedule(key, ttl);
+        } else {
+            this.expiry.cancel(key);
         }
     }
 
-    async setValue(key: string, value: T): Promise<Record<string, T>> {
-        if (!(await this.checkMemoryAvailability({ [key]: value }))) {
-            throw new MemoryLimitError(`Not enough memory to save data for key '${key}'`, { key, value });
+    private async expire(key: string, ttl: number): Promise<void> {
+        if (this.serveStaleWhenOpen && this.isCircuitOpen()) {
+            this.expiry.schedule(key, ttl);
+            return;
         }
-        this.memoryStore[key] = value;
-        this.setExpiration(key);
+        await this.deleteLocal(key);
+        this.emit('expiredValue', { key });
+    }
+
+    /**
+     * Expires key now if its deadline passed before the timer got to it
+     */
+    private async expireIfDue(key: string): Promise<void> {
+        const ttl = this.expiry.isDue(key) ? this.expiry.ttl(key) : undefined;
+        if (ttl !== undefined) {
+            this.expiry.cancel(key);
+            await this.expire(key, ttl);
+        }
+    }
+
+    /**
+     * Evicts entries until value fits, and returns its size
+     */
+    private async makeRoom(key: string, value: StoredValue<T> | NotFoundTombstone): Promise<number> {
+        await this.seedMemoryUsage();
+        const size = this.entrySize(key, value);
+        // Evicting cannot make room for a value bigger than the whole limit
+        if (size / 1024 / 1024 > this.memoryLimitMB) {
+            throw new MemoryLimitError(`Value for key '${key}' is larger than memoryLimitMB`, { key, value });
+        }
+        while (true) {
+            const isNewKey = !this.entrySizes.has(key);
+            const overEntryLimit = isNewKey && this.entrySizes.size >= this.maxEntries;
+            const projectedBytes = this.memoryUsage - (this.entrySizes.get(key) ?? 0) + size;
+            const hasMemory = projectedBytes / 1024 / 1024 <= this.memoryLimitMB;
+            if (!overEntryLimit && hasMemory) {
+                return size;
+            }
+
+            const victim = this.evictionPolicy === 'reject'
+                ? undefined
+                : this.evictionOrder.victim(key);
+            if (victim === undefined) {
+                if (overEntryLimit) {
+                    throw new MemoryLimitError(`Entry limit reached, cannot save data for key '${key}'`, { key, value });
+                }
+                throw new MemoryLimitError(`Not enough memory to save data for key '${key}'`, { key, value });
+            }
+            await this.evict(victim, overEntryLimit ? 'maxEntries' : 'memoryLimit');
+        }
+    }
+
+    private async evict(key: string, reason: 'maxEntries' | 'memoryLimit'): Promise<void> {
+        const entry = await this.removeEntry(key);
+        const value = isTombstone(entry) || entry === undefined ? undefined : this.codec.decode(entry);
+        this.emit('evicted', { key, value, reason, policy: this.evictionPolicy });
+    }
+
+    private async removeEntry(key: string): Promise<StoredValue<T> | NotFoundTombstone | undefined> {
+        const value = await this.store.delete(key);
+        this.l1?.delete(key);
+        this.trackSize(key, null);
+        this.evictionOrder.delete(key);
+        this.storedAt.delete(key);
+        this.expiry.cancel(key);
+        this.setEntryMeta(key, null);
+        return value;
+    }
+
+    private setEntryMeta(key: string, meta: EntryMeta<Q> | null): void {
+        this.entryMeta.get(key)?.tags.forEach(tag => {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.tagIndex.delete(tag);
+            }
+        });
+        this.entryMeta.delete(key);
+        if (!meta) {
+            return;
+        }
+        this.entryMeta.set(key, meta);
+        meta.tags.forEach(tag => {
+            let keys = this.tagIndex.get(tag);
+            if (!keys) {
+                keys = new Set();
+                this.tagIndex.set(tag, keys);
+            }
+            keys.add(key);
+        });
+    }
+
+    /**
+     * Writes run one at a time, so that each one's makeRoom sees the sizes
+     * and entries of the writes before it
+     */
+    private writeEntry(key: string, value: StoredValue<T> | NotFoundTombstone, ttl: number, meta: EntryMeta<Q> | null = null): Promise<void> {
+        const write = this.writeQueue.then(() => this.applyWrite(key, value, ttl, meta));
+        this.writeQueue = write.catch(() => {});
+        return write;
+    }
+
+    private async applyWrite(key: string, value: StoredValue<T> | NotFoundTombstone, ttl: number, meta: EntryMeta<Q> | null): Promise<void> {
+        const size = await this.makeRoom(key, value);
+        await this.store.set(key, value);
+        this.trackSize(key, size);
+        this.l1?.delete(key);
+        this.evictionOrder.written(key);
+        this.storedAt.set(key, Date.now());
+        this.setEntryMeta(key, meta);
+        this.setExpiration(key, ttl);
+    }
+
+    /**
+     * Sets a value in the cache
+     * 
+     * @param key - Cache key
+     * @param value - Value to store
+     * @param options - Tags and originating query used for invalidation
+     * @returns Record containing the new cache entry
+     * @throws MemoryLimitError if the entry cannot fit, or the eviction policy is 'reject'
+     */
+    async setValue(key: string, value: T, options: SetValueOptions<Q> = {}): Promise<Record<string, T>> {
+        this.assertActive();
+        const stored = await this.storeValue(key, value, options);
+        this.publish({ type: 'set', key, version: this.storedAt.get(key) ?? Date.now() });
+        return stored;
+    }
+
+    private async storeValue(
+        key: string,
+        value: T,
+        options: SetValueOptions<Q>,
+        stored: StoredValue<T> = this.codec.encode(value)
+    ): Promise<Record<string, T>> {
+        const { tags = [], query, ttl = this.expirationTime } = options;
+        if (!(ttl >= 0)) {
+            throw new RangeError('ttl must not be negative');
+        }
+        const lifetime = ttl > 0 ? ttl + this.staleWhileRevalidate : 0;
+        await this.writeEntry(key, stored, lifetime, { query, tags: [...new Set(tags)], ttl });
+        this.l1?.set(key, stored);
         this.emit('setValue', { key, value });
         return { [key]: value };
     }
 
+    private async setNotFound(key: string): Promise<void> {
+        await this.writeEntry(key, NOT_FOUND_TOMBSTONE, this.notFoundTTL);
+        this.emit('setNotFound', { key, ttl: this.notFoundTTL });
+    }
+
+    /**
+     * Deletes a value from the cache
+     * 
+     * @param key - Cache key to delete
+     * @returns Record containing the deleted cache entry
+     */
     async deleteValue(key: string): Promise<Record<string, T>> {
-        const value = { [key]: this.memoryStore[key] };
-        delete this.memoryStore[key];
+        this.assertActive();
+        const deleted = await this.deleteLocal(key);
+        this.publish({ type: 'delete', keys: [key] });
+        return deleted;
+    }
 
-        if (this.expirationTimers[key]) {
-            clearTimeout(this.expirationTimers[key]);
-            delete this.expirationTimers[key];
-        }
+    private async deleteLocal(key: string): Promise<Record<string, T>> {
+        const entry = await this.removeEntry(key);
+        const value = { [key]: (isTombstone(entry) || entry === undefined ? undefined : this.codec.decode(entry)) as T };
         this.emit('deleteValue', { key, deletedValue: value });
         return value;
     }
 
+    /**
+     * Deletes every entry carrying at least one of the given tags
+     *
+     * @param tags - Tags attached through cacheEntry(), tagFn or setValue
+     * @returns Keys that were deleted
+     */
+    async invalidateTags(tags: string[]): Promise<string[]> {
+        this.assertActive();
+        const keys = new Set<string>();
+        tags.forEach(tag => this.tagIndex.get(tag)?.forEach(key => keys.add(key)));
+        for (const key of keys) {
+            await this.deleteLocal(key);
+        }
+        this.publishDeletes([...keys]);
+        return [...keys];
+    }
+
+    /**
+     * Deletes every cached value the predicate returns true for. The query is
+     * undefined for values stored without one, e.g. through setValue
+     *
+     * @param predicate - Called with the originating query and the cached value
+     * @returns Keys that were deleted
+     */
+    async invalidateWhere(predicate: (query: Q | undefined, value: T) => boolean): Promise<string[]> {
+        this.assertActive();
+        const entries = await this.store.all();
+        const keys = Object.keys(entries).filter(key => {
+            const entry = entries[key];
+            return !isTombstone(entry) && predicate(this.entryMeta.get(key)?.query, this.codec.decode(entry));
+        });
+        for (const key of keys) {
+            await this.deleteLocal(key);
+        }
+        this.publishDeletes(keys);
+        return keys;
+    }
+
+    private async lookup(key: string): Promise<LookupResult<T>> {
+        await this.expireIfDue(key);
+        const cached = this.l1?.get(key);
+        const tier: CacheTier = cached === undefined ? 'l2' : 'l1';
+        const entry = cached ?? await this.store.get(key);
+        if (tier === 'l2' && entry !== undefined && !isTombstone(entry)) {
+            this.l1?.set(key, entry);
+        }
+        if (entry !== undefined) {
+            this.evictionOrder.accessed(key);
+        }
+        const value = entry === undefined || isTombstone(entry) ? entry : this.codec.decode(entry);
+        const notFound = isTombstone(value);
+        this.emit('getValue', { key, value: isTombstone(value) ? undefined : value, notFound });
+        return { entry: value, tier };
+    }
+
+    /**
+     * Retrieves a value from the cache
+     * 
+     * @param key - Cache key
+     * @returns The cached value or undefined if not found
+     */
     async get(key: string): Promise<T | undefined> {
-        const value = this.memoryStore[key];
-        this.emit('getValue', { key, value });
-        return value;
+        this.assertActive();
+        const { entry } = await this.lookup(key);
+        return isTombstone(entry) ? undefined : entry;
     }
 
+    /**
+     * Checks if a key exists in the cache
+     * 
+     * @param key - Cache key to check
+     * @returns Boolean indicating if the key holds a value (false for not-found tombstones)
+     */
     async has(key: string): Promise<boolean> {
-        const exists = key in this.memoryStore;
-        this.emit('has', { key, exists });
+        this.assertActive();
+        await this.expireIfDue(key);
+        const notFound = isTombstone(await this.store.get(key));
+        const exists = !notFound && await this.store.has(key);
+        this.emit('has', { key, exists, notFound });
         return exists;
     }
 
+    /**
+     * Clears all values from the cache
+     * 
+     * @returns Empty cache object
+     */
     async restartAllValues(): Promise<Record<string, T>> {
-        this.memoryStore = {};
-        Object.values(this.expirationTimers).forEach(clearTimeout);
-        this.expirationTimers = {};
-        this.emit('deleteAlls', this.memoryStore);
-        return this.memoryStore;
+        this.assertActive();
+        const cleared = await this.clearLocal();
+        this.publish({ type: 'clear' });
+        return cleared;
+    }
+
+    private async clearLocal(): Promise<Record<string, T>> {
+        await this.store.clear();
+        this.l1?.clear();
+        this.expiry.clear();
+        this.evictionOrder.clear();
+        this.entrySizes.clear();
+        this.memoryUsage = 0;
+        this.memorySeeded = true;
+        this.storedAt.clear();
+        this.entryMeta.clear();
+        this.tagIndex.clear();
+        const emptyStore: Record<string, T> = {};
+        this.emit('deleteAlls', emptyStore);
+        return emptyStore;
+    }
+
+    private publish(event: InvalidationEvent): void {
+        this.invalidationBus?.publish({ ...event, origin: this.busId, name: this.name });
+    }
+
+    private publishDeletes(keys: string[]): void {
+        if (keys.length > 0) {
+            this.publish({ type: 'delete', keys });
+        }
+    }
+
+    /**
+     * Applies a change published by another batcher, without publishing it again
+     */
+    private async applyInvalidation(message: InvalidationMessage): Promise<void> {
+        if (this.disposed || message.origin === this.busId || message.name !== this.name) {
+            return;
+        }
+        try {
+            if (message.type === 'clear') {
+                await this.clearLocal();
+            } else if (message.type === 'delete') {
+                for (const key of message.keys) {
+                    await this.deleteLocal(key);
+                }
+            } else {
+                const storedAt = this.storedAt.get(message.key);
+                if (storedAt !== undefined && storedAt < message.version) {
+                    await this.deleteLocal(message.key);
+                }
+            }
+            this.emit('invalidationReceived', message);
+        } catch (error) {
+            this.log('error', 'SmartBatcher could not apply invalidation', { message, error });
+            this.emit('invalidationError', { message, error });
+        }
     }
 }
 
@@ -0,0 +1,151 @@
+import cluster, { Worker } from 'cluster';
+import { BroadcastChannel } from 'worker_threads';
+
+/**
+ * Cache change made by one batcher that its peers in other processes apply.
+ * A set carries the time of the write, so peers only drop older copies
+ */
+export type InvalidationEvent =
+    | { type: 'delete'; keys: string[] }
+    | { type: 'clear' }
+    | { type: 'set'; key: string; version: number };
+
+/**
+ * Event as sent over a transport
+ */
+export type InvalidationMessage = InvalidationEvent & {
+    /**
+     * Id of the publishing batcher, used to ignore its own messages
+     */
+    origin: string;
+
+    /**
+     * Name of the publishing batcher. Only batchers with the same name apply it
+     */
+    name: string;
+};
+
+/**
+ * Pub/sub channel used by SmartBatcher to share invalidations between
+ * processes. Transports may deliver a message back to its publisher
+ */
+export interface InvalidationTransport {
+    /**
+     * Sends a message to every other subscriber
+     */
+    publish(message: InvalidationMessage): void;
+
+    /**
+     * Registers a listener and returns a function that removes it
+     */
+    subscribe(listener: (message: InvalidationMessage) => void): () => void;
+}
+
+/**
+ * Transport over a worker_threads BroadcastChannel. Reaches every thread of
+ * the process that opens a channel with the same name
+ */
+export class BroadcastChannelTransport implements InvalidationTransport {
+    private channel: BroadcastChannel;
+    private listeners: Set<(message: InvalidationMessage) => void> = new Set();
+
+    /**
+     * @param channelName - Channel shared by the batchers to connect
+     */
+    constructor(channelName: string = 'smart-batcher:invalidation') {
+        this.channel = new BroadcastChannel(channelName);
+        this.channel.onmessage = event => {
+            const { data } = event as { data: InvalidationMessage };
+            this.listeners.forEach(listener => listener(data));
+        };
+        this.channel.unref();
+    }
+
+    publish(message: InvalidationMessage): void {
+        this.channel.postMessage(message);
+    }
+
+    subscribe(listener: (message: InvalidationMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Closes the channel. Batchers using it stop receiving invalidations
+     */
+    close(): void {
+        this.channel.close();
+    }
+}
+
+const CLUSTER_MESSAGE_TYPE = 'smart-batcher:invalidation';
+
+interface ClusterEnvelope {
+    type: typeof CLUSTER_MESSAGE_TYPE;
+    message: InvalidationMessage;
+}
+
+function isClusterEnvelope(value: unknown): value is ClusterEnvelope {
+    return typeof value === 'object' && value !== null && (value as ClusterEnvelope).type === CLUSTER_MESSAGE_TYPE;
+}
+
+function clusterWorkers(): Worker[] {
+    return Object.values(cluster.workers ?? {}).filter((worker): worker is Worker => worker !== undefined);
+}
+
+/**
+ * Transport over Node cluster IPC. In a worker it talks to the primary, which
+ * must call relayClusterInvalidations() to pass messages on to the other
+ * workers. In the primary it sends to and receives from every worker
+ */
+export class ClusterTransport implements InvalidationTransport {
+    publish(message: InvalidationMessage): void {
+        const envelope: ClusterEnvelope = { type: CLUSTER_MESSAGE_TYPE, message };
+        if (cluster.isPrimary) {
+            clusterWorkers().forEach(worker => worker.send(envelope));
+        } else {
+            process.send?.(envelope);
+        }
+    }
+
+    subscribe(listener: (message: InvalidationMessage) => void): () => void {
+        if (cluster.isPrimary) {
+            const onWorkerMessage = (_worker: Worker, value: unknown) => {
+                if (isClusterEnvelope(value)) {
+                    listener(value.message);
+                }
+            };
+            cluster.on('message', onWorkerMessage);
+            return () => cluster.off('message', onWorkerMessage);
+        }
+
+        const onMessage = (value: unknown) => {
+            if (isClusterEnvelope(value)) {
+                listener(value.message);
+            }
+        };
+        process.on('message', onMessage);
+        return () => process.off('message', onMessage);
+    }
+}
+
+/**
+ * Forwards invalidations sent by each cluster worker to every other worker.
+ * Call once in the primary
+ *
+ * @returns Function that stops relaying
+ */
+export function relayClusterInvalidations(): () => void {
+    const onWorkerMessage = (sender: Worker, value: unknown) => {
+        if (!isClusterEnvelope(value)) {
+            return;
+        }
+        clusterWorkers().forEach(worker => {
+            if (worker !== sender) {
+                worker.send(value);
+            }
+        });
+    };
+    cluster.on('message', onWorkerMessage);
+    return () => cluster.off('message', onWorkerMessage);
+}
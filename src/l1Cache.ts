@@ -0,0 +1,47 @@
+interface L1Slot<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/**
+ * Small in-process LRU tier checked before the CacheStore. Entries expire
+ * lazily when read, so the tier keeps no timers of its own
+ */
+export class L1Cache<T> {
+    private slots: Map<string, L1Slot<T>> = new Map();
+
+    /**
+     * @param maxEntries - Entries kept before the least recently used is dropped
+     * @param ttl - Lifetime of an entry in milliseconds, 0 to keep it until removed from the store
+     */
+    constructor(private readonly maxEntries: number, private readonly ttl: number) {}
+
+    get(key: string): T | undefined {
+        const slot = this.slots.get(key);
+        if (!slot) {
+            return undefined;
+        }
+        this.slots.delete(key);
+        if (slot.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        this.slots.set(key, slot);
+        return slot.value;
+    }
+
+    set(key: string, value: T): void {
+        this.slots.delete(key);
+        this.slots.set(key, { value, expiresAt: this.ttl > 0 ? Date.now() + this.ttl : Infinity });
+        while (this.slots.size > this.maxEntries) {
+            this.slots.delete(this.slots.keys().next().value!);
+        }
+    }
+
+    delete(key: string): void {
+        this.slots.delete(key);
+    }
+
+    clear(): void {
+        this.slots.clear();
+    }
+}
@@ -0,0 +1,153 @@
+export interface HistogramSnapshot {
+    buckets: { le: number, count: number }[];
+    count: number;
+    sum: number;
+}
+
+export interface SummarySnapshot {
+    count: number;
+    sum: number;
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+export interface BatcherStats {
+    hits: number;
+    misses: number;
+    hitRatio: number;
+    batches: number;
+    batchSize: HistogramSnapshot;
+    batchLatencyMs: SummarySnapshot;
+    queueWaitMs: SummarySnapshot;
+    entries: number;
+    estimatedBytes: number;
+}
+
+export interface PrometheusOptions {
+    prefix?: string;
+    name?: string;
+}
+
+const BATCH_SIZE_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000];
+const MAX_SAMPLES = 1000;
+
+class Summary {
+    private samples: number[] = [];
+    private count = 0;
+    private sum = 0;
+
+    observe(value: number): void {
+        this.count++;
+        this.sum += value;
+        this.samples.push(value);
+        if (this.samples.length > MAX_SAMPLES) {
+            this.samples.shift();
+        }
+    }
+
+    snapshot(): SummarySnapshot {
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        const quantile = (q: number) => sorted.length === 0
+            ? 0
+            : sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)];
+        return { count: this.count, sum: this.sum, p50: quantile(0.5), p90: quantile(0.9), p99: quantile(0.99) };
+    }
+}
+
+export class MetricsCollector {
+    private hits = 0;
+    private misses = 0;
+    private batches = 0;
+    private batchSizeCounts: number[] = BATCH_SIZE_BUCKETS.map(() => 0);
+    private batchSizeCount = 0;
+    private batchSizeSum = 0;
+    private batchLatency = new Summary();
+    private queueWait = new Summary();
+
+    recordHit(): void {
+        this.hits++;
+    }
+
+    recordMiss(): void {
+        this.misses++;
+    }
+
+    recordBatch(size: number, latencyMs: number): void {
+        this.batches++;
+        this.batchSizeCount++;
+        this.batchSizeSum += size;
+        BATCH_SIZE_BUCKETS.forEach((le, index) => {
+            if (size <= le) {
+                this.batchSizeCounts[index]++;
+            }
+        });
+        this.batchLatency.observe(latencyMs);
+    }
+
+    recordQueueWait(waitMs: number): void {
+        this.queueWait.observe(waitMs);
+    }
+
+    snapshot(entries: number, estimatedBytes: number): BatcherStats {
+        const lookups = this.hits + this.misses;
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            hitRatio: lookups === 0 ? 0 : this.hits / lookups,
+            batches: this.batches,
+            batchSize: {
+                buckets: BATCH_SIZE_BUCKETS.map((le, index) => ({ le, count: this.batchSizeCounts[index] })),
+                count: this.batchSizeCount,
+                sum: this.batchSizeSum
+            },
+            batchLatencyMs: this.batchLatency.snapshot(),
+            queueWaitMs: this.queueWait.snapshot(),
+            entries,
+            estimatedBytes
+        };
+    }
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export function formatPrometheus(stats: BatcherStats, options: PrometheusOptions = {}): string {
+    const { prefix = 'smart_batcher', name = 'default' } = options;
+    const baseLabel = `batcher="${escapeLabel(name)}"`;
+    const lines: string[] = [];
+
+    const metric = (suffix: string, type: string, help: string, samples: [string, number][]) => {
+        lines.push(`# HELP ${prefix}_${suffix} ${help}`);
+        lines.push(`# TYPE ${prefix}_${suffix} ${type}`);
+        samples.forEach(([sample, value]) => lines.push(`${prefix}_${sample} ${value}`));
+    };
+    const summary = (suffix: string, help: string, snapshot: SummarySnapshot) => {
+        const seconds = (ms: number) => ms / 1000;
+        metric(suffix, 'summary', help, [
+            [`${suffix}{${baseLabel},quantile="0.5"}`, seconds(snapshot.p50)],
+            [`${suffix}{${baseLabel},quantile="0.9"}`, seconds(snapshot.p90)],
+            [`${suffix}{${baseLabel},quantile="0.99"}`, seconds(snapshot.p99)],
+            [`${suffix}_sum{${baseLabel}}`, seconds(snapshot.sum)],
+            [`${suffix}_count{${baseLabel}}`, snapshot.count]
+        ]);
+    };
+
+    metric('cache_hits_total', 'counter', 'Loads served from the cache.', [[`cache_hits_total{${baseLabel}}`, stats.hits]]);
+    metric('cache_misses_total', 'counter', 'Loads that missed the cache.', [[`cache_misses_total{${baseLabel}}`, stats.misses]]);
+    metric('cache_hit_ratio', 'gauge', 'Ratio of cache hits to lookups.', [[`cache_hit_ratio{${baseLabel}}`, stats.hitRatio]]);
+    metric('batches_total', 'counter', 'Calls made to batchFunction.', [[`batches_total{${baseLabel}}`, stats.batches]]);
+    metric('batch_size', 'histogram', 'Number of queries per batchFunction call.', [
+        ...stats.batchSize.buckets.map(({ le, count }): [string, number] => [`batch_size_bucket{${baseLabel},le="${le}"}`, count]),
+        [`batch_size_bucket{${baseLabel},le="+Inf"}`, stats.batchSize.count],
+        [`batch_size_sum{${baseLabel}}`, stats.batchSize.sum],
+        [`batch_size_count{${baseLabel}}`, stats.batchSize.count]
+    ]);
+    summary('batch_duration_seconds', 'Duration of batchFunction calls.', stats.batchLatencyMs);
+    summary('queue_wait_seconds', 'Time queries wait in the queue before their batch starts.', stats.queueWaitMs);
+    metric('cache_entries', 'gauge', 'Entries in the cache.', [[`cache_entries{${baseLabel}}`, stats.entries]]);
+    metric('cache_bytes', 'gauge', 'Estimated size of the cache in bytes.', [[`cache_bytes{${baseLabel}}`, stats.estimatedBytes]]);
+
+    return lines.join('\n') + '\n';
+}
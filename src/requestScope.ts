@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface RequestScope {
+    context: unknown;
+    scopes: WeakMap<object, unknown>;
+}
+
+const requestStorage = new AsyncLocalStorage<RequestScope>();
+
+/**
+ * Runs fn inside a request scope. Every batcher used by fn, including from
+ * its async continuations, loads through its own scope bound to context
+ *
+ * @param context - Passed as the second argument to batchFunction
+ * @param fn - Request handler
+ * @returns Whatever fn returns
+ */
+export function runWithContext<R>(context: unknown, fn: () => R): R {
+    return requestStorage.run({ context, scopes: new WeakMap() }, fn);
+}
+
+export function currentRequestScope(): RequestScope | undefined {
+    return requestStorage.getStore();
+}
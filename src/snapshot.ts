@@ -0,0 +1,49 @@
+import { once } from 'events';
+import { createReadStream, createWriteStream } from 'fs';
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+
+export interface SnapshotEntry<T> {
+    key: string;
+    value?: T;
+    notFound?: boolean;
+    ttl: number | null;
+    age: number;
+    /**
+     * Epoch milliseconds at which ttl and age were measured. Absent in
+     * snapshots written by hand, which are taken as exported just now
+     */
+    exportedAt?: number;
+}
+
+export interface SnapshotImportSummary {
+    imported: number;
+    expired: number;
+    rejected: number;
+}
+
+export async function writeSnapshot<T>(target: Writable | string, entries: Iterable<SnapshotEntry<T>>): Promise<number> {
+    const stream = typeof target === 'string' ? createWriteStream(target) : target;
+    let count = 0;
+    for (const entry of entries) {
+        if (!stream.write(JSON.stringify(entry) + '\n')) {
+            await once(stream, 'drain');
+        }
+        count++;
+    }
+    if (typeof target === 'string') {
+        stream.end();
+        await once(stream, 'finish');
+    }
+    return count;
+}
+
+export async function* readSnapshot<T>(source: Readable | string): AsyncGenerator<SnapshotEntry<T>> {
+    const input = typeof source === 'string' ? createReadStream(source) : source;
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (line.trim()) {
+            yield JSON.parse(line);
+        }
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Attribute values accepted on spans, as in OpenTelemetry
+ */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Identifies a span so that other spans can link to it
+ */
+export interface SpanContext {
+    traceId: string;
+    spanId: string;
+    traceFlags: number;
+}
+
+export interface SpanLink {
+    context: SpanContext;
+    attributes?: SpanAttributes;
+}
+
+/**
+ * The part of an OpenTelemetry Span used by SmartBatcher
+ */
+export interface Span {
+    spanContext(): SpanContext;
+    setAttribute(key: string, value: SpanAttributeValue): this;
+    setAttributes(attributes: SpanAttributes): this;
+    addEvent(name: string, attributes?: SpanAttributes): this;
+    recordException(exception: Error | string): void;
+    setStatus(status: { code: number; message?: string }): this;
+    end(): void;
+}
+
+/**
+ * The part of an OpenTelemetry Tracer used by SmartBatcher, so that
+ * `trace.getTracer('smart-batcher')` can be passed as is without the package
+ * depending on @opentelemetry/api
+ */
+export interface Tracer {
+    startSpan(name: string, options?: { attributes?: SpanAttributes; links?: SpanLink[] }): Span;
+}
+
+/**
+ * Same value as OpenTelemetry's SpanStatusCode.ERROR
+ */
+export const SPAN_STATUS_ERROR = 2;
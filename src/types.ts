@@ -0,0 +1,547 @@
+import { CacheEntry } from './cacheEntry.js';
+import { CacheStore } from './cacheStore.js';
+import { InvalidationMessage, InvalidationTransport } from './invalidationBus.js';
+import { Tracer } from './tracing.js';
+import { SnapshotImportSummary } from './snapshot.js';
+
+/**
+ * How batchFunction results are matched to queries
+ */
+export type ResultMode = 'positional' | 'keyed';
+
+/**
+ * Result for a single query: a value, a value wrapped with cacheEntry(),
+ * an Error, or null when nothing was found
+ */
+export type BatchItemResult<T> = T | CacheEntry<T> | Error | null;
+
+/**
+ * Value returned by batchFunction. Arrays are matched by index in positional
+ * mode; Maps and objects are matched by key in keyed mode
+ */
+export type BatchResult<T> =
+    | BatchItemResult<T>[]
+    | Map<any, BatchItemResult<T>>
+    | Record<string, BatchItemResult<T>>;
+
+/**
+ * Function that resolves a batch of queries. The context is the one given to
+ * scope() or runWithContext(), and undefined for loads made outside a scope
+ */
+export type BatchFunction<Q, T, C = any> = (queries: Q[], context: C) => Promise<BatchResult<T>>;
+
+/**
+ * Strategy used to make room in the cache when a limit is reached.
+ * 'reject' throws MemoryLimitError instead of evicting
+ */
+export type EvictionPolicy = 'lru' | 'lfu' | 'fifo' | 'reject';
+
+/**
+ * State of the circuit breaker around batchFunction
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+    /**
+     * Consecutive failed batches that open the breaker
+     * @default 5
+     */
+    failureThreshold?: number;
+
+    /**
+     * Time in milliseconds the breaker stays open before trial batches are allowed
+     * @default 30000
+     */
+    cooldownMs?: number;
+
+    /**
+     * Trial batches allowed while half-open. The breaker closes once they all succeed
+     * @default 1
+     */
+    halfOpenMaxBatches?: number;
+
+    /**
+     * Keep expired values in the cache and serve them while the breaker is open
+     * @default false
+     */
+    serveStale?: boolean;
+}
+
+/**
+ * Cache tier that served a value: the in-process L1, the CacheStore, or the
+ * request-private entries of the current scope
+ */
+export type CacheTier = 'l1' | 'l2' | 'request';
+
+/**
+ * Options for the in-process L1 tier checked before the store
+ */
+export interface L1CacheOptions {
+    /**
+     * Maximum number of entries, the least recently used is dropped first
+     * @default 1000
+     */
+    maxEntries?: number;
+
+    /**
+     * Time in milliseconds an entry stays in L1, which bounds how long it
+     * can miss changes made to the store by other batchers. With 0, it stays
+     * until it is evicted or removed through this batcher
+     * @default 1000
+     */
+    expirationTime?: number;
+}
+
+/**
+ * How cached values are protected from callers mutating them.
+ * 'reference' hands out the stored object itself
+ */
+export type ValueMode = 'reference' | 'freeze' | 'clone' | 'serialize';
+
+/**
+ * Converts values to and from strings in 'serialize' mode
+ */
+export interface ValueSerializer<T> {
+    serialize(value: T): string;
+    deserialize(text: string): T;
+}
+
+/**
+ * Minimum level a logger is called for. 'silent' turns logging off
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Receives the batcher's log lines. console and most structured loggers
+ * (pino, winston) fit as is
+ */
+export interface Logger {
+    debug(message: string, context?: Record<string, unknown>): void;
+    info(message: string, context?: Record<string, unknown>): void;
+    warn(message: string, context?: Record<string, unknown>): void;
+    error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Priority lane of a load. Higher lanes are batched and given batch slots first
+ */
+export type Priority = 'high' | 'normal' | 'low';
+
+/**
+ * Per-call options for load and loadMany
+ */
+export interface LoadOptions {
+    /**
+     * Cancels the load. A query that is still queued is removed from the batch
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Rejects the load with BatcherTimeoutError after this many milliseconds
+     */
+    timeoutMs?: number;
+
+    /**
+     * Lane of the load. A query already queued by another caller is moved up
+     * to the highest lane requested
+     * @default 'normal'
+     */
+    priority?: Priority;
+}
+
+/**
+ * Outcome of one query in loadManySettled, shaped like a Promise.allSettled record
+ */
+export type LoadSettledResult<T> =
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; reason: Error };
+
+/**
+ * Request-scoped view of a batcher, created with SmartBatcher.scope. It has its
+ * own queue and deduplication map and shares the batcher's cache
+ */
+export interface BatcherScope<Q = any, T = any, C = any> {
+    /**
+     * Context passed to batchFunction for this scope's batches
+     */
+    readonly context: C;
+
+    load(query: Q, options?: LoadOptions): Promise<T>;
+
+    loadMany(queries: Q[], options?: LoadOptions): Promise<(T | Error)[]>;
+
+    loadManySettled(queries: Q[], options?: LoadOptions): Promise<LoadSettledResult<T>[]>;
+
+    flush(): Promise<void>;
+}
+
+/**
+ * Options for SmartBatcher.setValue
+ */
+export interface SetValueOptions<Q = any> {
+    /**
+     * Tags used by invalidateTags
+     */
+    tags?: string[];
+
+    /**
+     * Query the value answers, passed to invalidateWhere predicates
+     */
+    query?: Q;
+
+    /**
+     * Lifetime of this entry in milliseconds, used instead of expirationTime.
+     * 0 keeps it until it is deleted or evicted
+     */
+    ttl?: number;
+}
+
+/**
+ * Retry configuration for failed batches and per-item errors
+ */
+export interface RetryOptions<Q = any> {
+    /**
+     * Total number of attempts, including the first one
+     * @default 3
+     */
+    maxAttempts?: number;
+
+    /**
+     * Delay in milliseconds before the first retry
+     * @default 100
+     */
+    initialDelayMs?: number;
+
+    /**
+     * Upper bound for the delay between attempts
+     * @default 10000
+     */
+    maxDelayMs?: number;
+
+    /**
+     * Multiplier applied to the delay after each attempt
+     * @default 2
+     */
+    factor?: number;
+
+    /**
+     * Randomize each delay between half and the full computed value
+     * @default true
+     */
+    jitter?: boolean;
+
+    /**
+     * Decides whether a failed query should be retried
+     * @default () => true
+     */
+    shouldRetry?: (error: any, query: Q) => boolean;
+}
+
+/**
+ * Configuration options for SmartBatcher
+ */
+export interface SmartBatcherOptions<Q = any, T = any> {
+    /**
+     * Delay in milliseconds between receiving requests and executing the batch
+     * @default 0
+     */
+    delay?: number;
+
+    /**
+     * Queue length that flushes the batch immediately instead of waiting for the window
+     * @default Infinity
+     */
+    flushAtSize?: number;
+
+    /**
+     * Longest time in milliseconds a batch waits after its first query was queued
+     * @default Infinity
+     */
+    maxWaitMs?: number;
+
+    /**
+     * Sizes the batch window from the observed arrival rate instead of delay:
+     * the window stays open while another query is expected within maxWaitMs,
+     * and closes on the next tick otherwise. Requires maxWaitMs
+     * @default false
+     */
+    adaptive?: boolean;
+
+    /**
+     * Maximum memory usage in megabytes allowed for the cache
+     * @default 1024 (1GB)
+     */
+    memoryLimitMB?: number;
+
+    /**
+     * Estimates the size of a value in bytes. Each entry is measured once when
+     * it is written and kept in a running total checked against memoryLimitMB.
+     * Not used in 'serialize' mode, where the stored string is measured
+     * @default sizeof from object-sizeof
+     */
+    sizeOf?: (value: T) => number;
+
+    /**
+     * How cached values are kept. 'freeze' deep-freezes values when they are
+     * cached, 'clone' stores a copy and hands each read its own copy, and
+     * 'serialize' stores values as strings and parses them on every read
+     * @default 'reference'
+     */
+    valueMode?: ValueMode;
+
+    /**
+     * Converts values to and from strings in 'serialize' mode
+     * @default JSON.stringify and JSON.parse
+     */
+    serializer?: ValueSerializer<T>;
+
+    /**
+     * Deflates serialized values with zlib before storing them. Requires
+     * valueMode 'serialize'
+     * @default false
+     */
+    compress?: boolean;
+
+    /**
+     * Time in milliseconds after which cached items will expire
+     * Set to 0 for no expiration
+     * @default 0
+     */
+    expirationTime?: number;
+
+    /**
+     * Custom function to generate a hash for cache keys
+     * @param key - The key data to hash
+     * @returns A string hash
+     */
+    hashFn?: (key: any) => string;
+
+    /**
+     * Function to normalize queries before processing
+     * @param query - The original query
+     * @returns Normalized query
+     */
+    queryNormalizer?: (query: Q) => Q;
+
+    /**
+     * List of query fields to extract when creating cache keys
+     * If null or empty, the entire query will be used
+     * @default null
+     */
+    cacheKeyFields?: (keyof Q & string)[] | null;
+
+    /**
+     * Shorthand for logging to console at 'debug' level
+     * @default false
+     */
+    debugMode?: boolean;
+
+    /**
+     * Where log lines go. null disables logging
+     * @default debugMode ? console : null
+     */
+    logger?: Logger | null;
+
+    /**
+     * Lowest level passed to the logger
+     * @default debugMode ? 'debug' : 'info'
+     */
+    logLevel?: LogLevel;
+
+    /**
+     * OpenTelemetry-compatible tracer. load and loadMany calls get a span,
+     * and each batch a span linked to the load spans it serves
+     * @default null
+     */
+    tracer?: Tracer | null;
+
+    /**
+     * Storage backend for cached results. Can be shared between batchers
+     * @default new MemoryCacheStore()
+     */
+    store?: CacheStore<T>;
+
+    /**
+     * Shares deleteValue, setValue, invalidation and clears with batchers of
+     * the same name in other processes, and applies theirs to this cache
+     */
+    invalidationBus?: InvalidationTransport | null;
+
+    /**
+     * Enables an in-process L1 tier in front of the store (the L2). Store hits
+     * are promoted into L1 and new results are written to both tiers
+     */
+    l1?: L1CacheOptions;
+
+    /**
+     * Maximum number of queries sent to batchFunction in a single call.
+     * Larger queues are split into several chunks
+     * @default Infinity
+     */
+    maxBatchSize?: number;
+
+    /**
+     * Maximum number of batchFunction calls running at the same time
+     * @default Infinity
+     */
+    maxConcurrentBatches?: number;
+
+    /**
+     * Delay in milliseconds before a batch holding high-priority queries is
+     * flushed, when shorter than the regular window
+     * @default 0
+     */
+    highPriorityDelay?: number;
+
+    /**
+     * Time in milliseconds a batch may wait for a slot behind higher-priority
+     * batches before it is served first
+     * @default 1000
+     */
+    maxPriorityWaitMs?: number;
+
+    /**
+     * How entries are evicted when memoryLimitMB or maxEntries is reached
+     * @default 'lru'
+     */
+    evictionPolicy?: EvictionPolicy;
+
+    /**
+     * Maximum number of entries kept in the cache
+     * @default Infinity
+     */
+    maxEntries?: number;
+
+    /**
+     * Time in milliseconds after expirationTime during which an expired value
+     * is still served while it is refreshed in the background
+     * @default 0
+     */
+    staleWhileRevalidate?: number;
+
+    /**
+     * Fraction of expirationTime (0 to 1) after which a cache hit re-queues
+     * the key for a background refresh. Set to 0 to disable
+     * @default 0
+     */
+    refreshAhead?: number;
+
+    /**
+     * 'positional' matches results to queries by index. 'keyed' matches them
+     * by the keys of a returned Map or object, or by resultKeyFn
+     * @default 'positional'
+     */
+    resultMode?: ResultMode;
+
+    /**
+     * In keyed mode, derives from a result the query (or cache key) it answers,
+     * so batchFunction can return a plain array in any order
+     */
+    resultKeyFn?: (result: T) => Q | Partial<Q> | string;
+
+    /**
+     * Derives invalidation tags for a freshly fetched value. They are added to
+     * any tags attached with cacheEntry()
+     */
+    tagFn?: (query: Q, value: T) => string[];
+
+    /**
+     * Retry failed batches and per-item errors with exponential backoff.
+     * Only the failed queries are re-batched
+     */
+    retry?: RetryOptions<Q>;
+
+    /**
+     * Remember null results as not-found tombstones, so later loads reject
+     * with NotFoundError without calling batchFunction
+     * @default false
+     */
+    cacheNotFound?: boolean;
+
+    /**
+     * Time in milliseconds after which a not-found tombstone expires, so an
+     * item created later is loaded again. Must be positive
+     * @default 60000
+     */
+    notFoundTTL?: number;
+
+    /**
+     * Time in milliseconds after which a running batch is rejected with
+     * BatcherTimeoutError. Set to 0 to disable
+     * @default 0
+     */
+    batchTimeoutMs?: number;
+
+    /**
+     * Stops calling batchFunction after repeated failures, rejecting misses
+     * with CircuitOpenError until the cooldown is over
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+
+    /**
+     * Unref cache expiration timers so they do not keep the process alive
+     * @default true
+     */
+    unrefTimers?: boolean;
+
+    /**
+     * Name reported in the batcher label of exported metrics
+     * @default 'default'
+     */
+    name?: string;
+}
+
+/**
+ * Payload of every event emitted by SmartBatcher, keyed by event name
+ */
+export interface SmartBatcherEvents<Q = any, T = any> {
+    /** A value was served from the cache */
+    cacheHit: { key: string, query: Q, value: T, tier: CacheTier };
+    /** A value was not found in the cache */
+    cacheMiss: { key: string, query: Q };
+    /** A load was rejected from a not-found tombstone */
+    notFoundHit: { key: string, query: Q };
+    /** A value was added to the cache */
+    setValue: { key: string, value: T };
+    /** A not-found tombstone was stored */
+    setNotFound: { key: string, ttl: number };
+    /** A value was deleted from the cache */
+    deleteValue: { key: string, deletedValue: Record<string, T> };
+    /** A value was read from the cache */
+    getValue: { key: string, value: T | undefined, notFound: boolean };
+    /** The cache was checked for a key */
+    has: { key: string, exists: boolean, notFound: boolean };
+    /** An entry was evicted to make room for a new one */
+    evicted: { key: string, value: T | undefined, reason: 'maxEntries' | 'memoryLimit', policy: EvictionPolicy };
+    /** A cached value expired */
+    expiredValue: { key: string };
+    /** Removing an expired value from the store failed on the expiry timer */
+    expirationError: { key: string, error: any };
+    /** The entire cache was cleared */
+    deleteAlls: Record<string, T>;
+    /** A change published by another process was applied */
+    invalidationReceived: InvalidationMessage;
+    /** Applying a change published by another process failed */
+    invalidationError: { message: InvalidationMessage, error: any };
+    /** An expired value was served during the stale window */
+    staleHit: { key: string, query: Q, value: T, age: number };
+    /** A hot key was queued for refresh before it expired */
+    refreshAhead: { key: string, query: Q, age: number };
+    /** A background refresh failed */
+    refreshError: { key: string, query: Q, error: any };
+    /** Failed queries are about to be retried */
+    retry: { batchId: string, attempt: number, delayMs: number, queries: Q[], errors: any[] };
+    /** A batch was formed and is about to be sent to batchFunction */
+    batchStart: { batchId: string, size: number, queries: Q[] };
+    /** Every query of a batch has settled, after any retries */
+    batchEnd: { batchId: string, size: number, attempts: number, errors: number, durationMs: number };
+    /** A snapshot was written */
+    snapshotExported: { exported: number };
+    /** A snapshot was imported */
+    snapshotImported: SnapshotImportSummary;
+    /** The circuit breaker changed state */
+    circuitStateChange: { from: CircuitState, to: CircuitState };
+}
@@ -0,0 +1,110 @@
+import sizeof from 'object-sizeof';
+import { deflateSync, inflateSync } from 'zlib';
+import { ValueMode, ValueSerializer } from './types.js';
+
+/**
+ * A value as kept in the store and L1: the value itself, or its serialized
+ * form in 'serialize' mode
+ */
+export type StoredValue<T> = T | string;
+
+const JSON_SERIALIZER: ValueSerializer<any> = {
+    serialize: value => JSON.stringify(value),
+    deserialize: text => JSON.parse(text)
+};
+
+/**
+ * Freezes value and everything reachable from it. Typed arrays cannot be
+ * frozen and are left as is, as are the contents of Maps and Sets
+ */
+export function deepFreeze<T>(value: T): T {
+    if (typeof value !== 'object' || value === null || Object.isFrozen(value) || ArrayBuffer.isView(value)) {
+        return value;
+    }
+    Object.freeze(value);
+    Object.getOwnPropertyNames(value).forEach(name => deepFreeze((value as any)[name]));
+    return value;
+}
+
+/**
+ * Converts values between what callers see and what the cache stores,
+ * according to the batcher's valueMode
+ */
+export class ValueCodec<T> {
+    /**
+     * @param mode - How values are protected from mutation by callers
+     * @param measure - Size of a value, for the modes that store values as is
+     * @param serializer - Converts values to and from strings in 'serialize' mode
+     * @param compress - Whether serialized values are deflated and stored as base64
+     */
+    constructor(
+        private readonly mode: ValueMode,
+        private readonly measure: (value: T) => number,
+        private readonly serializer: ValueSerializer<T> = JSON_SERIALIZER,
+        private readonly compress: boolean = false
+    ) {}
+
+    /**
+     * Returns the representation to store for a value being cached
+     */
+    encode(value: T): StoredValue<T> {
+        switch (this.mode) {
+            case 'freeze':
+                return deepFreeze(value);
+            case 'clone':
+                return structuredClone(value);
+            case 'serialize': {
+                const text = this.serializer.serialize(value);
+                return this.compress ? deflateSync(text).toString('base64') : text;
+            }
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * Returns the value to hand to a caller for a stored representation
+     */
+    decode(stored: StoredValue<T>): T {
+        switch (this.mode) {
+            case 'clone':
+                return structuredClone(stored as T);
+            case 'serialize': {
+                const text = this.compress ? inflateSync(Buffer.from(stored as string, 'base64')).toString() : stored as string;
+                return this.serializer.deserialize(text);
+            }
+            default:
+                return stored as T;
+        }
+    }
+
+    /**
+     * Returns the value to resolve a fresh load with. In 'serialize' mode it
+     * is read back from the stored string, so it matches later cache hits
+     */
+    delivered(value: T, stored: StoredValue<T>): T {
+        return this.mode === 'serialize' ? this.decode(stored) : value;
+    }
+
+    /**
+     * Whether every caller gets its own copy of a value
+     */
+    get copiesValues(): boolean {
+        return this.mode === 'clone' || this.mode === 'serialize';
+    }
+
+    /**
+     * Returns a caller's own copy of a value fresh from batchFunction, which
+     * every caller waiting on the same key would otherwise share
+     */
+    copy(value: T): T {
+        return this.copiesValues ? structuredClone(value) : value;
+    }
+
+    /**
+     * Size in bytes of a stored representation
+     */
+    sizeOf(stored: StoredValue<T>): number {
+        return this.mode === 'serialize' ? sizeof(stored) : this.measure(stored as T);
+    }
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import SmartBatcher, { FileCacheStore, MemoryCacheStore } from '../src';
+
+describe('CacheStore', () => {
+  const mockBatchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id, name: `Item ${id}` }));
+  });
+
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-batcher-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('should set, get, check and delete values', async () => {
+      const store = new MemoryCacheStore<string>();
+
+      await store.set('a', 'value a');
+
+      expect(await store.get('a')).toBe('value a');
+      expect(await store.has('a')).toBe(true);
+      expect(await store.delete('a')).toBe('value a');
+      expect(await store.has('a')).toBe(false);
+    });
+
+    it('should be shareable between batchers', async () => {
+      const store = new MemoryCacheStore<{ id: string, name: string }>();
+      const batcher1 = new SmartBatcher(mockBatchFunction, { store });
+      const batcher2 = new SmartBatcher(mockBatchFunction, { store });
+
+      await batcher1.load('1');
+      const result = await batcher2.load('1');
+
+      expect(result).toEqual({ id: '1', name: 'Item 1' });
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    it('should persist values to disk', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const store = new FileCacheStore<string>(filePath);
+
+      await store.set('a', 'value a');
+
+      const content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      expect(content).toEqual({ a: 'value a' });
+    });
+
+    it('should keep cached data across batcher restarts', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const batcher1 = new SmartBatcher(mockBatchFunction, { store: new FileCacheStore(filePath) });
+      await batcher1.load('1');
+
+      const batcher2 = new SmartBatcher(mockBatchFunction, { store: new FileCacheStore(filePath) });
+      const result = await batcher2.load('1');
+
+      expect(result).toEqual({ id: '1', name: 'Item 1' });
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove deleted and cleared values from disk', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const store = new FileCacheStore<string>(filePath);
+
+      await store.set('a', 'value a');
+      await store.set('b', 'value b');
+      await store.delete('a');
+      expect(await new FileCacheStore<string>(filePath).all()).toEqual({ b: 'value b' });
+
+      await store.clear();
+      expect(await new FileCacheStore<string>(filePath).all()).toEqual({});
+    });
+
+    it('should keep every entry when two instances write to the same file', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const first = new FileCacheStore<string>(filePath);
+      const second = new FileCacheStore<string>(filePath);
+      await first.get('a');
+      await second.get('a');
+
+      await Promise.all([first.set('a', 'A'), second.set('b', 'B'), first.set('c', 'C'), second.delete('missing')]);
+
+      expect(await new FileCacheStore<string>(filePath).all()).toEqual({ a: 'A', b: 'B', c: 'C' });
+      expect(await first.all()).toEqual({ a: 'A', b: 'B', c: 'C' });
+      expect((await fs.readdir(tmpDir)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should apply deletes made through another instance', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const first = new FileCacheStore<string>(filePath);
+      const second = new FileCacheStore<string>(filePath);
+      await first.set('a', 'A');
+      await second.set('b', 'B');
+
+      await second.delete('a');
+      await first.set('c', 'C');
+
+      expect(await new FileCacheStore<string>(filePath).all()).toEqual({ b: 'B', c: 'C' });
+    });
+
+    it('should read and delete keys written by another instance after its first read', async () => {
+      const filePath = path.join(tmpDir, 'cache.json');
+      const first = new FileCacheStore<number>(filePath);
+      const second = new FileCacheStore<number>(filePath);
+      expect(await second.get('k')).toBeUndefined();
+
+      await first.set('k', 1);
+
+      expect(await second.get('k')).toBe(1);
+      expect(await second.has('k')).toBe(true);
+      expect(await second.delete('k')).toBe(1);
+      expect(await first.get('k')).toBeUndefined();
+      expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({});
+    });
+
+    it('should start empty when the file does not exist', async () => {
+      const store = new FileCacheStore<string>(path.join(tmpDir, 'missing.json'));
+
+      expect(await store.get('a')).toBeUndefined();
+      expect(await store.has('a')).toBe(false);
+    });
+  });
+});
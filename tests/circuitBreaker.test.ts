@@ -0,0 +1,130 @@
+import SmartBatcher, { BatchFunctionError, CircuitOpenError } from '../src';
+import { CircuitBreaker } from '../src/circuitBreaker';
+
+describe('circuit breaker', () => {
+  let downstreamUp = true;
+  const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    if (!downstreamUp) {
+      throw new Error('Service unavailable');
+    }
+    return queries.map(id => ({ id }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    downstreamUp = true;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive failures and half-open after the cooldown', () => {
+      jest.useFakeTimers();
+      const transitions: string[] = [];
+      const breaker = new CircuitBreaker(2, 1000, 1, (from, to) => transitions.push(`${from}->${to}`));
+
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      expect(breaker.getState()).toBe('closed');
+
+      breaker.recordFailure();
+      expect(breaker.tryAcquire()).toBe(false);
+
+      jest.advanceTimersByTime(1000);
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+
+      breaker.recordSuccess();
+      expect(transitions).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+    });
+
+    it('should reopen when a half-open trial fails', () => {
+      jest.useFakeTimers();
+      const breaker = new CircuitBreaker(1, 1000, 2, () => {});
+
+      breaker.recordFailure();
+      jest.advanceTimersByTime(1000);
+      breaker.tryAcquire();
+      breaker.recordSuccess();
+      expect(breaker.getState()).toBe('half-open');
+
+      breaker.tryAcquire();
+      breaker.recordFailure();
+      expect(breaker.getState()).toBe('open');
+    });
+  });
+
+  describe('SmartBatcher with circuitBreaker', () => {
+    it('should fail fast with CircuitOpenError while open', async () => {
+      const batcher = new SmartBatcher(batchFunction, { circuitBreaker: { failureThreshold: 2 } });
+      const stateListener = jest.fn();
+      batcher.on('circuitStateChange', stateListener);
+      downstreamUp = false;
+
+      await expect(batcher.load('1')).rejects.toThrow(BatchFunctionError);
+      await expect(batcher.load('2')).rejects.toThrow(BatchFunctionError);
+      await expect(batcher.load('3')).rejects.toThrow(CircuitOpenError);
+      const results = await batcher.loadMany(['4']);
+
+      expect(results[0]).toBeInstanceOf(CircuitOpenError);
+      expect(batchFunction).toHaveBeenCalledTimes(2);
+      expect(stateListener).toHaveBeenCalledWith({ from: 'closed', to: 'open' });
+    });
+
+    it('should still serve cached values while open', async () => {
+      const batcher = new SmartBatcher(batchFunction, { circuitBreaker: { failureThreshold: 1 } });
+      await batcher.load('1');
+      downstreamUp = false;
+
+      await expect(batcher.load('2')).rejects.toThrow(BatchFunctionError);
+
+      expect(await batcher.load('1')).toEqual({ id: '1' });
+    });
+
+    it('should close again after a successful trial batch', async () => {
+      const batcher = new SmartBatcher(batchFunction, { circuitBreaker: { failureThreshold: 1, cooldownMs: 20 } });
+      const transitions: string[] = [];
+      batcher.on('circuitStateChange', ({ to }) => transitions.push(to));
+      downstreamUp = false;
+
+      await expect(batcher.load('1')).rejects.toThrow(BatchFunctionError);
+      downstreamUp = true;
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      expect(await batcher.load('1')).toEqual({ id: '1' });
+      expect(transitions).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    it('should keep serving expired values with serveStale', async () => {
+      jest.useFakeTimers();
+      const batcher = new SmartBatcher(batchFunction, {
+        expirationTime: 1000,
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60000, serveStale: true }
+      });
+      const staleHitListener = jest.fn();
+      batcher.on('staleHit', staleHitListener);
+
+      const loading = batcher.load('1');
+      await jest.runOnlyPendingTimersAsync();
+      await loading;
+      downstreamUp = false;
+      const failing = expect(batcher.load('2')).rejects.toThrow(BatchFunctionError);
+      await jest.runOnlyPendingTimersAsync();
+      await failing;
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(await batcher.load('1')).toEqual({ id: '1' });
+      expect(staleHitListener).toHaveBeenCalledTimes(1);
+      expect(batchFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate its options', () => {
+      expect(() => new SmartBatcher(batchFunction, { circuitBreaker: { failureThreshold: 0 } })).toThrow(RangeError);
+      expect(() => new SmartBatcher(batchFunction, { circuitBreaker: { halfOpenMaxBatches: 0 } })).toThrow(RangeError);
+    });
+  });
+});
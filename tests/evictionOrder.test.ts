@@ -0,0 +1,75 @@
+import { EvictionOrder } from '../src/evictionOrder';
+
+describe('EvictionOrder', () => {
+  it('should pick the least recently used key with lru', () => {
+    const order = new EvictionOrder('lru');
+    ['a', 'b', 'c'].forEach(key => order.written(key));
+
+    order.accessed('a');
+
+    expect(order.victim('x')).toBe('b');
+  });
+
+  it('should ignore reads with fifo', () => {
+    const order = new EvictionOrder('fifo');
+    ['a', 'b'].forEach(key => order.written(key));
+
+    order.accessed('a');
+
+    expect(order.victim('x')).toBe('a');
+  });
+
+  it('should pick the least frequently used key with lfu, oldest read first', () => {
+    const order = new EvictionOrder('lfu');
+    ['a', 'b', 'c'].forEach(key => order.written(key));
+
+    order.accessed('a');
+    order.accessed('a');
+    order.accessed('c');
+    order.accessed('b');
+
+    expect(order.victim('x')).toBe('c');
+    order.delete('c');
+    expect(order.victim('x')).toBe('b');
+  });
+
+  it('should reset the count when a key is written again', () => {
+    const order = new EvictionOrder('lfu');
+    ['a', 'b'].forEach(key => order.written(key));
+    order.accessed('a');
+    order.accessed('b');
+
+    order.written('a');
+
+    expect(order.victim('x')).toBe('a');
+  });
+
+  it('should skip the excluded key', () => {
+    const order = new EvictionOrder('lfu');
+    ['a', 'b'].forEach(key => order.written(key));
+    order.accessed('b');
+
+    expect(order.victim('a')).toBe('b');
+    expect(order.victim('x')).toBe('a');
+  });
+
+  it('should evict keys already in the store first', () => {
+    const order = new EvictionOrder('lru');
+    order.written('a');
+    order.add('stored');
+    order.add('a');
+
+    expect(order.victim('x')).toBe('stored');
+    order.accessed('stored');
+    expect(order.victim('x')).toBe('a');
+  });
+
+  it('should forget everything on clear', () => {
+    const order = new EvictionOrder('lfu');
+    ['a', 'b'].forEach(key => order.written(key));
+
+    order.clear();
+
+    expect(order.victim('x')).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import hash from 'object-hash';
+import SmartBatcher, { MemoryCacheStore, cacheEntry } from '../src';
+import { ExpiryQueue } from '../src/expiryQueue';
+
+describe('expiration', () => {
+  const mockBatchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('ExpiryQueue', () => {
+    it('should expire keys in deadline order with one timer', () => {
+      const expired: string[] = [];
+      const queue = new ExpiryQueue(key => expired.push(key), false);
+
+      queue.schedule('c', 300);
+      queue.schedule('a', 100);
+      queue.schedule('b', 200);
+      expect(jest.getTimerCount()).toBe(1);
+
+      jest.advanceTimersByTime(250);
+      expect(expired).toEqual(['a', 'b']);
+
+      jest.advanceTimersByTime(50);
+      expect(expired).toEqual(['a', 'b', 'c']);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should skip cancelled and rescheduled deadlines', () => {
+      const expired: string[] = [];
+      const queue = new ExpiryQueue(key => expired.push(key), false);
+
+      queue.schedule('a', 100);
+      queue.schedule('b', 100);
+      queue.cancel('a');
+      queue.schedule('b', 500);
+
+      jest.advanceTimersByTime(100);
+      expect(expired).toEqual([]);
+      expect(queue.expiresAt('b')).toBe(Date.now() + 400);
+
+      jest.advanceTimersByTime(400);
+      expect(expired).toEqual(['b']);
+    });
+
+    it('should report due keys before the timer fires', () => {
+      const queue = new ExpiryQueue(() => {}, false);
+
+      queue.schedule('a', 100);
+      jest.setSystemTime(Date.now() + 100);
+
+      expect(queue.isDue('a')).toBe(true);
+      expect(queue.ttl('a')).toBe(100);
+    });
+  });
+
+  describe('SmartBatcher expiration', () => {
+    it('should keep a single timer for many entries', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 1000 });
+
+      await Promise.all(['a', 'b', 'c'].map((key, i) => batcher.setValue(key, { id: key }, { ttl: 1000 * (i + 1) })));
+
+      expect(jest.getTimerCount()).toBe(1);
+    });
+
+    it('should honor a per-entry ttl from setValue', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 10000 });
+      const expiredListener = jest.fn();
+      batcher.on('expiredValue', expiredListener);
+
+      await batcher.setValue('short', { id: 'short' }, { ttl: 100 });
+      await batcher.setValue('default', { id: 'default' });
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(await batcher.get('short')).toBeUndefined();
+      expect(await batcher.get('default')).toEqual({ id: 'default' });
+      expect(expiredListener).toHaveBeenCalledWith({ key: 'short' });
+    });
+
+    it('should honor ttl envelopes returned by batchFunction', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) =>
+        queries.map(id => cacheEntry({ id }, { ttl: id === 'fast' ? 50 : 0 })), { expirationTime: 10000 });
+
+      const loading = Promise.all([batcher.load('fast'), batcher.load('forever')]);
+      await jest.runOnlyPendingTimersAsync();
+      await loading;
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(await batcher.has(hash('fast'))).toBe(false);
+      expect(await batcher.has(hash('forever'))).toBe(true);
+    });
+
+    it('should expire lazily when a read comes before the timer', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+      const expiredListener = jest.fn();
+      batcher.on('expiredValue', expiredListener);
+
+      await batcher.setValue('a', { id: 'a' }, { ttl: 100 });
+      jest.setSystemTime(Date.now() + 100);
+
+      expect(await batcher.has('a')).toBe(false);
+      expect(expiredListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat an entry as stale after its own ttl', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 10000, staleWhileRevalidate: 1000 });
+      const staleHitListener = jest.fn();
+      batcher.on('staleHit', staleHitListener);
+      const key = hash('1');
+
+      await batcher.setValue(key, { id: '1' }, { ttl: 100 });
+      await jest.advanceTimersByTimeAsync(500);
+      const value = await batcher.load('1');
+
+      expect(value).toEqual({ id: '1' });
+      expect(staleHitListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a failing store delete on the timer and retry on the next read', async () => {
+      const store = new MemoryCacheStore<any>();
+      const remove = jest.spyOn(store, 'delete').mockRejectedValueOnce(new Error('delete failed'));
+      const batcher = new SmartBatcher(mockBatchFunction, { store });
+      const errorListener = jest.fn();
+      batcher.on('expirationError', errorListener);
+
+      await batcher.setValue('a', { id: 'a' }, { ttl: 100 });
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(errorListener).toHaveBeenCalledWith({ key: 'a', error: new Error('delete failed') });
+      expect(await batcher.has('a')).toBe(false);
+      expect(remove).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a negative ttl', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+
+      await expect(batcher.setValue('a', { id: 'a' }, { ttl: -1 })).rejects.toThrow(RangeError);
+    });
+  });
+});
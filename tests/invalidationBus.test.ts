@@ -0,0 +1,200 @@
+import cluster from 'cluster';
+import SmartBatcher, {
+  BroadcastChannelTransport,
+  ClusterTransport,
+  InvalidationMessage,
+  InvalidationTransport,
+  relayClusterInvalidations
+} from '../src';
+
+class LoopbackTransport implements InvalidationTransport {
+  private listeners = new Set<(message: InvalidationMessage) => void>();
+  published: InvalidationMessage[] = [];
+
+  publish(message: InvalidationMessage): void {
+    this.published.push(message);
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  subscribe(listener: (message: InvalidationMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+describe('invalidation bus', () => {
+  const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id }));
+  });
+  const received = (batcher: SmartBatcher, type: InvalidationMessage['type']) =>
+    new Promise<InvalidationMessage>(resolve => {
+      const listener = (message: InvalidationMessage) => {
+        if (message.type === type) {
+          batcher.off('invalidationReceived', listener);
+          resolve(message);
+        }
+      };
+      batcher.on('invalidationReceived', listener);
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('BroadcastChannelTransport', () => {
+    let transports: BroadcastChannelTransport[] = [];
+    const connect = (options = {}) => {
+      const transport = new BroadcastChannelTransport('smart-batcher:test');
+      transports.push(transport);
+      return new SmartBatcher(batchFunction, { invalidationBus: transport, ...options });
+    };
+
+    afterEach(() => {
+      transports.forEach(transport => transport.close());
+      transports = [];
+    });
+
+    it('should delete the key in other batchers', async () => {
+      const a = connect();
+      const b = connect();
+      await a.setValue('1', { id: '1' });
+      await b.setValue('1', { id: '1' });
+
+      const delivered = received(b, 'delete');
+      await a.deleteValue('1');
+      await delivered;
+
+      expect(await b.has('1')).toBe(false);
+    });
+
+    it('should clear other batchers', async () => {
+      const a = connect();
+      const b = connect();
+      await b.setValue('1', { id: '1' });
+
+      const delivered = received(b, 'clear');
+      await a.clearCache();
+      await delivered;
+
+      expect(await b.has('1')).toBe(false);
+    });
+
+    it('should drop older copies when a value is set elsewhere', async () => {
+      const a = connect();
+      const b = connect();
+      await b.setValue('1', { id: 'old' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      const delivered = received(b, 'set');
+      await a.setValue('1', { id: 'new' });
+      await delivered;
+
+      expect(await b.get('1')).toBeUndefined();
+      expect(await a.get('1')).toEqual({ id: 'new' });
+    });
+
+    it('should send tag invalidations as one message', async () => {
+      const a = connect();
+      const b = connect();
+      await a.setValue('1', { id: '1' }, { tags: ['t'] });
+      await a.setValue('2', { id: '2' }, { tags: ['t'] });
+      await b.setValue('2', { id: '2' });
+
+      const delivered = received(b, 'delete');
+      await a.invalidateTags(['t']);
+
+      expect(await delivered).toEqual(expect.objectContaining({ type: 'delete', keys: ['1', '2'] }));
+      expect(await b.has('2')).toBe(false);
+    });
+  });
+
+  describe('SmartBatcher with invalidationBus', () => {
+    it('should ignore its own messages', async () => {
+      const transport = new LoopbackTransport();
+      const batcher = new SmartBatcher(batchFunction, { invalidationBus: transport });
+      const receivedListener = jest.fn();
+      batcher.on('invalidationReceived', receivedListener);
+
+      await batcher.setValue('1', { id: '1' });
+
+      expect(transport.published).toEqual([expect.objectContaining({ type: 'set', key: '1' })]);
+      expect(receivedListener).not.toHaveBeenCalled();
+      expect(await batcher.has('1')).toBe(true);
+    });
+
+    it('should ignore messages for batchers with another name', async () => {
+      const transport = new LoopbackTransport();
+      const users = new SmartBatcher(batchFunction, { invalidationBus: transport, name: 'users' });
+      const posts = new SmartBatcher(batchFunction, { invalidationBus: transport, name: 'posts' });
+      await posts.setValue('1', { id: '1' });
+
+      await users.deleteValue('1');
+
+      expect(await posts.has('1')).toBe(true);
+    });
+
+    it('should not publish loads, expiries or evictions', async () => {
+      const transport = new LoopbackTransport();
+      const batcher = new SmartBatcher(batchFunction, { invalidationBus: transport, maxEntries: 1, expirationTime: 10 });
+
+      await batcher.load('1');
+      await batcher.load('2');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(transport.published).toEqual([]);
+    });
+
+    it('should stop applying messages once disposed', async () => {
+      const transport = new LoopbackTransport();
+      const batcher = new SmartBatcher(batchFunction, { invalidationBus: transport });
+      const receivedListener = jest.fn();
+      batcher.on('invalidationReceived', receivedListener);
+
+      batcher.dispose();
+      transport.publish({ type: 'clear', origin: 'other', name: 'default' });
+
+      expect(receivedListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ClusterTransport', () => {
+    const message: InvalidationMessage = { type: 'delete', keys: ['1'], origin: 'worker-1', name: 'default' };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should send to the primary and receive from it in a worker', () => {
+      jest.replaceProperty(cluster, 'isPrimary', false);
+      const originalSend = process.send;
+      const send = jest.fn();
+      process.send = send;
+      const transport = new ClusterTransport();
+      const listener = jest.fn();
+      const unsubscribe = transport.subscribe(listener);
+
+      try {
+        transport.publish(message);
+        process.emit('message', send.mock.calls[0][0], undefined);
+      } finally {
+        unsubscribe();
+        process.send = originalSend;
+      }
+
+      expect(listener).toHaveBeenCalledWith(message);
+    });
+
+    it('should relay worker messages to every other worker', () => {
+      const [a, b] = [{ send: jest.fn() }, { send: jest.fn() }];
+      jest.replaceProperty(cluster, 'workers', { 1: a, 2: b } as any);
+      const stop = relayClusterInvalidations();
+
+      cluster.emit('message', a, { type: 'smart-batcher:invalidation', message });
+      cluster.emit('message', a, { type: 'unrelated' });
+      stop();
+
+      expect(a.send).not.toHaveBeenCalled();
+      expect(b.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import SmartBatcher, { MemoryCacheStore } from '../src';
+import { L1Cache } from '../src/l1Cache';
+
+describe('two-tier cache', () => {
+  const mockBatchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('L1Cache', () => {
+    it('should drop the least recently used entry', () => {
+      const l1 = new L1Cache<string>(2, 0);
+      l1.set('a', 'A');
+      l1.set('b', 'B');
+      l1.get('a');
+      l1.set('c', 'C');
+
+      expect(l1.get('a')).toBe('A');
+      expect(l1.get('b')).toBeUndefined();
+      expect(l1.get('c')).toBe('C');
+    });
+
+    it('should expire entries lazily', () => {
+      jest.useFakeTimers();
+      try {
+        const l1 = new L1Cache<string>(10, 1000);
+        l1.set('a', 'A');
+
+        jest.advanceTimersByTime(999);
+        expect(l1.get('a')).toBe('A');
+
+        jest.advanceTimersByTime(1);
+        expect(l1.get('a')).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('SmartBatcher with l1', () => {
+    it('should report the tier that served each hit', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { l1: { maxEntries: 10 } });
+      const cacheHitListener = jest.fn();
+      batcher.on('cacheHit', cacheHitListener);
+
+      await batcher.load('1');
+      await batcher.load('1');
+
+      expect(cacheHitListener).toHaveBeenCalledWith(expect.objectContaining({ value: { id: '1' }, tier: 'l1' }));
+    });
+
+    it('should report l2 hits without an l1 tier', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+      const cacheHitListener = jest.fn();
+      batcher.on('cacheHit', cacheHitListener);
+
+      await batcher.load('1');
+      await batcher.load('1');
+
+      expect(cacheHitListener).toHaveBeenCalledWith(expect.objectContaining({ tier: 'l2' }));
+    });
+
+    it('should serve l1 hits without reading the store', async () => {
+      const store = new MemoryCacheStore<{ id: string }>();
+      const getSpy = jest.spyOn(store, 'get');
+      const batcher = new SmartBatcher(mockBatchFunction, { store, l1: {} });
+
+      await batcher.load('1');
+      getSpy.mockClear();
+      await batcher.loadMany(['1']);
+
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    it('should promote store hits into l1', async () => {
+      const store = new MemoryCacheStore<{ id: string }>();
+      const warm = new SmartBatcher(mockBatchFunction, { store });
+      await warm.load('1');
+
+      const batcher = new SmartBatcher(mockBatchFunction, { store, l1: {} });
+      const tiers: string[] = [];
+      batcher.on('cacheHit', ({ tier }) => tiers.push(tier));
+
+      await batcher.load('1');
+      await batcher.load('1');
+
+      expect(tiers).toEqual(['l2', 'l1']);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the store when an entry is dropped from l1', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { l1: { maxEntries: 1 } });
+      const tiers: string[] = [];
+      batcher.on('cacheHit', ({ tier }) => tiers.push(tier));
+
+      await batcher.loadMany(['1', '2']);
+      await batcher.load('1');
+      await batcher.load('1');
+
+      expect(tiers).toEqual(['l2', 'l1']);
+    });
+
+    it('should fall back to the store when an l1 entry expires', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { l1: { expirationTime: 20 } });
+      const tiers: string[] = [];
+      batcher.on('cacheHit', ({ tier }) => tiers.push(tier));
+
+      await batcher.load('1');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await batcher.load('1');
+
+      expect(tiers).toEqual(['l2']);
+    });
+
+    it('should drop l1 entries deleted from the store', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { l1: {} });
+
+      await batcher.load('1');
+      await batcher.clearCache();
+      await batcher.load('1');
+
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should see deletes from another batcher once the default l1 expiration passes', async () => {
+      const store = new MemoryCacheStore<{ id: string }>();
+      const reader = new SmartBatcher(mockBatchFunction, { store, l1: {} });
+      const writer = new SmartBatcher(mockBatchFunction, { store });
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await reader.load('1');
+      await writer.invalidateWhere(() => true);
+      await reader.load('1');
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+
+      nowSpy.mockReturnValue(now + 1001);
+      await reader.load('1');
+      nowSpy.mockRestore();
+
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate l1.maxEntries', () => {
+      expect(() => new SmartBatcher(mockBatchFunction, { l1: { maxEntries: 0 } })).toThrow(RangeError);
+    });
+
+    it('should validate l1.expirationTime', () => {
+      expect(() => new SmartBatcher(mockBatchFunction, { l1: { expirationTime: -1 } })).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import SmartBatcher from '../src';
+import { MetricsCollector, formatPrometheus } from '../src/metrics';
+
+describe('metrics', () => {
+  const mockBatchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('MetricsCollector', () => {
+    it('should compute the hit ratio', () => {
+      const collector = new MetricsCollector();
+      collector.recordHit();
+      collector.recordHit();
+      collector.recordHit();
+      collector.recordMiss();
+
+      const stats = collector.snapshot(0, 0);
+
+      expect(stats.hits).toBe(3);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRatio).toBe(0.75);
+    });
+
+    it('should fill cumulative batch size buckets', () => {
+      const collector = new MetricsCollector();
+      collector.recordBatch(1, 5);
+      collector.recordBatch(7, 10);
+
+      const { batchSize } = collector.snapshot(0, 0);
+
+      expect(batchSize.buckets.find(bucket => bucket.le === 1)!.count).toBe(1);
+      expect(batchSize.buckets.find(bucket => bucket.le === 10)!.count).toBe(2);
+      expect(batchSize.count).toBe(2);
+      expect(batchSize.sum).toBe(8);
+    });
+
+    it('should compute latency percentiles', () => {
+      const collector = new MetricsCollector();
+      for (let latency = 1; latency <= 100; latency++) {
+        collector.recordBatch(1, latency);
+      }
+
+      const { batchLatencyMs } = collector.snapshot(0, 0);
+
+      expect(batchLatencyMs.p50).toBe(50);
+      expect(batchLatencyMs.p90).toBe(90);
+      expect(batchLatencyMs.p99).toBe(99);
+      expect(batchLatencyMs.count).toBe(100);
+    });
+  });
+
+  describe('SmartBatcher.getStats', () => {
+    it('should report hits, misses, batches and entries', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10 });
+
+      await Promise.all([batcher.load('1'), batcher.load('2')]);
+      await batcher.load('1');
+
+      const stats = await batcher.getStats();
+
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(2);
+      expect(stats.batches).toBe(1);
+      expect(stats.batchSize.sum).toBe(2);
+      expect(stats.queueWaitMs.count).toBe(2);
+      expect(stats.entries).toBe(2);
+      expect(stats.estimatedBytes).toBeGreaterThan(0);
+    });
+  });
+
+  describe('toPrometheus', () => {
+    it('should use the batcher name label and a custom prefix', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { name: 'users' });
+      await batcher.load('1');
+
+      const output = await batcher.toPrometheus({ prefix: 'app_loader' });
+
+      expect(output).toContain('# TYPE app_loader_cache_misses_total counter');
+      expect(output).toContain('app_loader_cache_misses_total{batcher="users"} 1');
+      expect(output).toContain('app_loader_batch_size_bucket{batcher="users",le="+Inf"} 1');
+      expect(output).toContain('app_loader_cache_entries{batcher="users"} 1');
+    });
+
+    it('should escape label values', () => {
+      const stats = new MetricsCollector().snapshot(0, 0);
+
+      const output = formatPrometheus(stats, { name: 'a"b\\c' });
+
+      expect(output).toContain('smart_batcher_batches_total{batcher="a\\"b\\\\c"} 0');
+    });
+  });
+});
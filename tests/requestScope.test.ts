@@ -0,0 +1,100 @@
+import SmartBatcher, { cacheEntry, runWithContext } from '../src';
+
+interface Viewer {
+  userId: string;
+}
+
+describe('request scopes', () => {
+  const batchFunction = jest.fn().mockImplementation(async (queries: string[], viewer?: Viewer) => {
+    return queries.map(id => ({ id, viewer: viewer?.userId }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('scope', () => {
+    it('should pass the scope context to batchFunction', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+      const scope = batcher.scope({ userId: 'alice' });
+
+      const results = await Promise.all([scope.load('1'), scope.load('2')]);
+
+      expect(results).toEqual([{ id: '1', viewer: 'alice' }, { id: '2', viewer: 'alice' }]);
+      expect(batchFunction).toHaveBeenCalledWith(['1', '2'], { userId: 'alice' });
+    });
+
+    it('should give each scope its own queue and deduplication', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+      const alice = batcher.scope({ userId: 'alice' });
+      const bob = batcher.scope({ userId: 'bob' });
+
+      await Promise.all([alice.load('1'), bob.load('2'), alice.load('3')]);
+
+      expect(batchFunction).toHaveBeenCalledTimes(2);
+      expect(batchFunction).toHaveBeenCalledWith(['1', '3'], { userId: 'alice' });
+      expect(batchFunction).toHaveBeenCalledWith(['2'], { userId: 'bob' });
+    });
+
+    it('should share the cache between scopes', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+
+      await batcher.scope({ userId: 'alice' }).load('1');
+      const result = await batcher.scope({ userId: 'bob' }).loadMany(['1']);
+
+      expect(result).toEqual([{ id: '1', viewer: 'alice' }]);
+      expect(batchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep private entries inside their scope', async () => {
+      const batcher = new SmartBatcher(async (queries: string[], viewer: Viewer) =>
+        queries.map(id => cacheEntry({ id, viewer: viewer.userId }, { private: true })));
+      const alice = batcher.scope({ userId: 'alice' });
+      const cacheHitListener = jest.fn();
+      batcher.on('cacheHit', cacheHitListener);
+
+      await alice.load('me');
+      expect(await alice.load('me')).toEqual({ id: 'me', viewer: 'alice' });
+      expect(await batcher.scope({ userId: 'bob' }).load('me')).toEqual({ id: 'me', viewer: 'bob' });
+
+      expect(cacheHitListener).toHaveBeenCalledTimes(1);
+      expect(cacheHitListener).toHaveBeenCalledWith(expect.objectContaining({ tier: 'request' }));
+    });
+
+    it('should flush its own queue', async () => {
+      const batcher = new SmartBatcher(batchFunction, { delay: 60000 });
+      const scope = batcher.scope({ userId: 'alice' });
+
+      const load = scope.load('1');
+      await new Promise(resolve => setImmediate(resolve));
+      await scope.flush();
+
+      await expect(load).resolves.toEqual({ id: '1', viewer: 'alice' });
+    });
+  });
+
+  describe('runWithContext', () => {
+    it('should bind loads to a scope for the context', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+
+      const [alice, bob] = await Promise.all([
+        runWithContext({ userId: 'alice' }, () => batcher.load('1')),
+        runWithContext({ userId: 'bob' }, async () => {
+          await Promise.resolve();
+          return batcher.loadMany(['2']);
+        })
+      ]);
+
+      expect(alice).toEqual({ id: '1', viewer: 'alice' });
+      expect(bob).toEqual([{ id: '2', viewer: 'bob' }]);
+    });
+
+    it('should call batchFunction without a context outside of a scope', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+
+      await batcher.load('1');
+
+      expect(batchFunction).toHaveBeenCalledWith(['1']);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Node defines Symbol.asyncDispose outside V8, so Jest's sandbox lacks it;
+// reuse the registered symbol Node itself uses for `await using`
+(Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol.for('nodejs.asyncDispose');
@@ -1,4 +1,16 @@
-import SmartBatcher, { CacheError, BatchFunctionError, MemoryLimitError, NotFoundError } from '../src';
+import hash from 'object-hash';
+import SmartBatcher, {
+  CacheError,
+  BatchFunctionError,
+  BatchResultMismatchError,
+  BatcherAbortError,
+  BatcherDisposedError,
+  BatcherTimeoutError,
+  MemoryCacheStore,
+  MemoryLimitError,
+  NotFoundError,
+  cacheEntry
+} from '../src';
 
 describe('SmartBatcher', () => {
   // Mock data and functions
@@ -154,6 +166,663 @@ describe('SmartBatcher', () => {
       expect(results[1]).toBeInstanceOf(BatchFunctionError);
       expect(results[2]).toBeInstanceOf(BatchFunctionError);
     });
+
+    it('should join the batch window of concurrent loads', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10 });
+
+      await Promise.all([batcher.load('3'), batcher.loadMany(['1', '2'])]);
+
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+      expect(mockBatchFunction).toHaveBeenCalledWith(['3', '1', '2']);
+    });
+
+    it('should report cache write failures in the item slot', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 1, evictionPolicy: 'reject' });
+      await batcher.setValue('a', mockData[0]);
+
+      const results = await batcher.loadMany(['2']);
+
+      expect(results[0]).toBeInstanceOf(CacheError);
+    });
+  });
+
+  describe('loadManySettled', () => {
+    it('should describe each outcome like Promise.allSettled', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+
+      const results = await batcher.loadManySettled(['1', 'missing']);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: mockData[0] });
+      expect(results[1]).toEqual({ status: 'rejected', reason: expect.any(NotFoundError) });
+    });
+  });
+
+  describe('maxBatchSize', () => {
+    it('should split a large queue into chunks', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxBatchSize: 2 });
+
+      const results = await Promise.all(['1', '2', '3'].map(id => batcher.load(id)));
+
+      expect(results).toEqual([mockData[0], mockData[1], mockData[2]]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(1, ['1', '2']);
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(2, ['3']);
+    });
+
+    it('should split loadMany fetches into chunks', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxBatchSize: 2 });
+
+      const results = await batcher.loadMany(['1', '2', '3']);
+
+      expect(results).toEqual([mockData[0], mockData[1], mockData[2]]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only reject items of the failed chunk', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        if (queries.includes('3')) {
+          throw new Error('Chunk error');
+        }
+        return queries.map(id => mockData.find(item => item.id === id) || null);
+      }, { maxBatchSize: 2 });
+
+      const results = await Promise.allSettled(['1', '2', '3'].map(id => batcher.load(id)));
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: mockData[0] });
+      expect(results[1]).toEqual({ status: 'fulfilled', value: mockData[1] });
+      expect(results[2].status).toBe('rejected');
+      expect((results[2] as PromiseRejectedResult).reason).toBeInstanceOf(BatchFunctionError);
+    });
+
+    it('should limit concurrent batches', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active--;
+        return queries.map(id => ({ id }));
+      }, { maxBatchSize: 1, maxConcurrentBatches: 2 });
+
+      await Promise.all(['1', '2', '3', '4', '5'].map(id => batcher.load(id)));
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => new SmartBatcher(mockBatchFunction, { maxBatchSize: 0 })).toThrow(RangeError);
+      expect(() => new SmartBatcher(mockBatchFunction, { maxConcurrentBatches: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('flush strategies', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should flush as soon as the queue reaches flushAtSize', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 60000, flushAtSize: 2 });
+
+      const results = await Promise.all([batcher.load('1'), batcher.load('2')]);
+
+      expect(results).toEqual([mockData[0], mockData[1]]);
+      expect(mockBatchFunction).toHaveBeenCalledWith(['1', '2']);
+    });
+
+    it('should flush no later than maxWaitMs', async () => {
+      jest.useFakeTimers();
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 1000, maxWaitMs: 50 });
+
+      const load = batcher.load('1');
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(mockBatchFunction).toHaveBeenCalledWith(['1']);
+      await expect(load).resolves.toEqual(mockData[0]);
+    });
+
+    it('should force the pending queue out with flush()', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 60000 });
+
+      const loads = Promise.all([batcher.load('1'), batcher.load('2')]);
+      await new Promise(resolve => setImmediate(resolve));
+      await batcher.flush();
+
+      expect(mockBatchFunction).toHaveBeenCalledWith(['1', '2']);
+      expect(await batcher.has(hash('2'))).toBe(true);
+      await expect(loads).resolves.toEqual([mockData[0], mockData[1]]);
+    });
+
+    it('should widen the adaptive window while queries keep arriving', async () => {
+      jest.useFakeTimers();
+      const batcher = new SmartBatcher(mockBatchFunction, { adaptive: true, maxWaitMs: 100 });
+
+      const loads = [batcher.load('1')];
+      await jest.advanceTimersByTimeAsync(10);
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(1, ['1']);
+
+      loads.push(batcher.load('2'));
+      await jest.advanceTimersByTimeAsync(10);
+      loads.push(batcher.load('3'));
+      await jest.advanceTimersByTimeAsync(15);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(5);
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(2, ['2', '3']);
+      await expect(Promise.all(loads)).resolves.toEqual(mockData);
+    });
+
+    it('should flush on the next tick when arrivals are too sparse', async () => {
+      jest.useFakeTimers();
+      const batcher = new SmartBatcher(mockBatchFunction, { adaptive: true, maxWaitMs: 20 });
+
+      await jest.advanceTimersByTimeAsync(0);
+      const first = batcher.load('1');
+      await jest.advanceTimersByTimeAsync(100);
+      const second = batcher.load('2');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+      await expect(Promise.all([first, second])).resolves.toEqual([mockData[0], mockData[1]]);
+    });
+
+    it('should reject invalid flush options', () => {
+      expect(() => new SmartBatcher(mockBatchFunction, { flushAtSize: 0 })).toThrow(RangeError);
+      expect(() => new SmartBatcher(mockBatchFunction, { maxWaitMs: -1 })).toThrow(RangeError);
+      expect(() => new SmartBatcher(mockBatchFunction, { adaptive: true })).toThrow(RangeError);
+    });
+  });
+
+  describe('priority lanes', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should batch high-priority queries first', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10, maxBatchSize: 2, maxConcurrentBatches: 1 });
+
+      await Promise.all([
+        batcher.load('1', { priority: 'low' }),
+        batcher.load('2'),
+        batcher.load('3', { priority: 'high' })
+      ]);
+
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(1, ['3', '2']);
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(2, ['1']);
+    });
+
+    it('should flush high-priority queries after highPriorityDelay', async () => {
+      jest.useFakeTimers();
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 1000, highPriorityDelay: 10 });
+
+      const normal = batcher.load('1');
+      await jest.advanceTimersByTimeAsync(0);
+      const high = batcher.load('2', { priority: 'high' });
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect(mockBatchFunction).toHaveBeenCalledWith(['2', '1']);
+      await expect(Promise.all([normal, high])).resolves.toEqual([mockData[0], mockData[1]]);
+    });
+
+    it('should move a queued query up when a higher-priority caller joins', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10, maxBatchSize: 1 });
+
+      const loads = [batcher.load('1'), batcher.load('2', { priority: 'low' })];
+      await new Promise(resolve => setImmediate(resolve));
+      loads.push(batcher.load('2', { priority: 'high' }));
+      await Promise.all(loads);
+
+      expect(mockBatchFunction).toHaveBeenNthCalledWith(1, ['2']);
+    });
+
+    it('should give batch slots to higher lanes first', async () => {
+      const calls: string[][] = [];
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        calls.push(queries);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return queries.map(id => ({ id }));
+      }, { maxBatchSize: 1, maxConcurrentBatches: 1 });
+
+      const low = batcher.loadMany(['1', '2', '3'], { priority: 'low' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await Promise.all([low, batcher.load('4', { priority: 'high' })]);
+
+      expect(calls).toEqual([['1'], ['4'], ['2'], ['3']]);
+    });
+
+    it('should serve starved batches after maxPriorityWaitMs', async () => {
+      const calls: string[][] = [];
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        calls.push(queries);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return queries.map(id => ({ id }));
+      }, { maxBatchSize: 1, maxConcurrentBatches: 1, maxPriorityWaitMs: 15 });
+
+      const low = batcher.loadMany(['1', '2'], { priority: 'low' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const high = batcher.loadMany(['3', '4', '5'], { priority: 'high' });
+      await Promise.all([low, high]);
+
+      expect(calls.findIndex(([id]) => id === '2')).toBeLessThan(calls.length - 1);
+    });
+  });
+
+  describe('resultMode', () => {
+    it('should reject unmatched items when positional results are too short', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => [mockData[0]], { delay: 10 });
+
+      const results = await Promise.allSettled([batcher.load('1'), batcher.load('2')]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: mockData[0] });
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(BatchResultMismatchError);
+    });
+
+    it('should match results from a Map keyed by query', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        return new Map(mockData.filter(item => queries.includes(item.id)).map(item => [item.id, item]));
+      }, { resultMode: 'keyed' });
+
+      const results = await batcher.loadMany(['3', '1', '4']);
+
+      expect(results[0]).toEqual(mockData[2]);
+      expect(results[1]).toEqual(mockData[0]);
+      expect(results[2]).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should match results from an object keyed by cache key', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        return Object.fromEntries(queries.map(id => [hash(id), mockData.find(item => item.id === id) || null]));
+      }, { resultMode: 'keyed' });
+
+      expect(await batcher.load('2')).toEqual(mockData[1]);
+    });
+
+    it('should match array results with resultKeyFn', async () => {
+      const batcher = new SmartBatcher(async (queries: { id: string }[]) => {
+        return mockData.filter(item => queries.some(query => query.id === item.id)).reverse();
+      }, { resultMode: 'keyed', resultKeyFn: result => ({ id: result.id }), delay: 10 });
+
+      const results = await Promise.all([batcher.load({ id: '1' }), batcher.load({ id: '2' })]);
+
+      expect(results).toEqual([mockData[0], mockData[1]]);
+    });
+
+    it('should reject arrays without resultKeyFn in keyed mode', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { resultMode: 'keyed' });
+
+      await expect(batcher.load('1')).rejects.toThrow(BatchFunctionError);
+    });
+  });
+
+  describe('retry', () => {
+    const retry = { maxAttempts: 3, initialDelayMs: 1, jitter: false };
+
+    it('should retry a batch that throws', async () => {
+      const flakyBatchFunction = jest.fn()
+        .mockRejectedValueOnce(new Error('Temporary error'))
+        .mockImplementation(mockBatchFunction);
+      const batcher = new SmartBatcher(flakyBatchFunction, { retry });
+      const retryListener = jest.fn();
+      batcher.on('retry', retryListener);
+
+      expect(await batcher.load('1')).toEqual(mockData[0]);
+      expect(flakyBatchFunction).toHaveBeenCalledTimes(2);
+      expect(retryListener).toHaveBeenCalledWith(expect.objectContaining({ attempt: 2, delayMs: 1, queries: ['1'] }));
+    });
+
+    it('should only re-batch failed queries', async () => {
+      let failures = 1;
+      const partialBatchFunction = jest.fn(async (queries: string[]) => queries.map(id => {
+        if (id === '2' && failures-- > 0) {
+          return new Error('Item 2 error');
+        }
+        return mockData.find(item => item.id === id) || null;
+      }));
+      const batcher = new SmartBatcher(partialBatchFunction, { retry });
+
+      const results = await batcher.loadMany(['1', '2', '3']);
+
+      expect(results).toEqual([mockData[0], mockData[1], mockData[2]]);
+      expect(partialBatchFunction).toHaveBeenCalledTimes(2);
+      expect(partialBatchFunction).toHaveBeenNthCalledWith(2, ['2']);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const batcher = new SmartBatcher(mockErrorBatchFunction, { retry });
+
+      await expect(batcher.load('1')).rejects.toThrow(BatchFunctionError);
+      expect(mockErrorBatchFunction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry when shouldRetry returns false', async () => {
+      const shouldRetry = jest.fn(() => false);
+      const batcher = new SmartBatcher(mockErrorBatchFunction, { retry: { ...retry, shouldRetry } });
+
+      await expect(batcher.load('1')).rejects.toThrow(BatchFunctionError);
+      expect(mockErrorBatchFunction).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), '1');
+    });
+  });
+
+  describe('in-flight deduplication', () => {
+    it('should send duplicate loads in one window only once', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10 });
+
+      const results = await Promise.all([batcher.load('1'), batcher.load('1'), batcher.load('2')]);
+
+      expect(results).toEqual([mockData[0], mockData[0], mockData[1]]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+      expect(mockBatchFunction).toHaveBeenCalledWith(['1', '2']);
+    });
+
+    it('should attach loads to a batch that is still running', async () => {
+      let release: () => void = () => {};
+      const slowBatchFunction = jest.fn(async (queries: string[]) => {
+        await new Promise<void>(resolve => { release = resolve; });
+        return queries.map(id => mockData.find(item => item.id === id) || null);
+      });
+      const batcher = new SmartBatcher(slowBatchFunction);
+
+      const first = batcher.load('1');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(slowBatchFunction).toHaveBeenCalledTimes(1);
+
+      const second = batcher.load('1');
+      release();
+
+      expect(await first).toEqual(mockData[0]);
+      expect(await second).toEqual(mockData[0]);
+      expect(slowBatchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share in-flight keys between load and loadMany', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 10 });
+
+      const [single, many] = await Promise.all([batcher.load('1'), batcher.loadMany(['1', '1', '2'])]);
+
+      expect(single).toEqual(mockData[0]);
+      expect(many).toEqual([mockData[0], mockData[0], mockData[1]]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+      expect(mockBatchFunction).toHaveBeenCalledWith(['1', '2']);
+    });
+
+    it('should share rejections with every attached caller', async () => {
+      const batcher = new SmartBatcher(mockErrorBatchFunction);
+
+      const results = await Promise.allSettled([batcher.load('1'), batcher.load('1')]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(mockErrorBatchFunction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    const hangingBatchFunction = jest.fn(() => new Promise<any[]>(() => {}));
+
+    it('should remove an aborted load from the pending queue', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 20 });
+      const controller = new AbortController();
+
+      const aborted = batcher.load('1', { signal: controller.signal });
+      const kept = batcher.load('2');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      controller.abort();
+
+      await expect(aborted).rejects.toThrow(BatcherAbortError);
+      expect(await kept).toEqual(mockData[1]);
+      expect(mockBatchFunction).toHaveBeenCalledWith(['2']);
+    });
+
+    it('should keep a shared query queued while another caller waits for it', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 20 });
+      const controller = new AbortController();
+
+      const aborted = batcher.load('1', { signal: controller.signal });
+      const kept = batcher.load('1');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      controller.abort();
+
+      await expect(aborted).rejects.toThrow(BatcherAbortError);
+      expect(await kept).toEqual(mockData[0]);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(batcher.load('1', { signal: controller.signal })).rejects.toThrow(BatcherAbortError);
+      expect(mockBatchFunction).not.toHaveBeenCalled();
+    });
+
+    it('should time out a load whose batch hangs', async () => {
+      const batcher = new SmartBatcher(hangingBatchFunction);
+
+      await expect(batcher.load('1', { timeoutMs: 10 })).rejects.toThrow(BatcherTimeoutError);
+    });
+
+    it('should time out unsettled loadMany items', async () => {
+      const batcher = new SmartBatcher(hangingBatchFunction);
+      await batcher.setValue(hash('1'), mockData[0]);
+
+      const results = await batcher.loadMany(['1', '2'], { timeoutMs: 10 });
+
+      expect(results[0]).toEqual(mockData[0]);
+      expect(results[1]).toBeInstanceOf(BatcherTimeoutError);
+    });
+
+    it('should reject the whole batch after batchTimeoutMs', async () => {
+      const batcher = new SmartBatcher(hangingBatchFunction, { batchTimeoutMs: 10 });
+
+      const results = await Promise.allSettled([batcher.load('1'), batcher.load('2')]);
+
+      results.forEach(result => {
+        expect((result as PromiseRejectedResult).reason).toBeInstanceOf(BatcherTimeoutError);
+      });
+    });
+  });
+
+  describe('invalidation', () => {
+    it('should invalidate entries by tags attached with cacheEntry', async () => {
+      const batchFunction = jest.fn().mockImplementation(async (queries: string[]) =>
+        queries.map(id => cacheEntry({ id }, { tags: [`item:${id}`, 'items'] })));
+      const batcher = new SmartBatcher(batchFunction);
+      const deleteValueListener = jest.fn();
+      batcher.on('deleteValue', deleteValueListener);
+
+      expect(await batcher.loadMany(['1', '2'])).toEqual([{ id: '1' }, { id: '2' }]);
+
+      expect(await batcher.invalidateTags(['item:1'])).toEqual([hash('1')]);
+      expect(await batcher.has(hash('1'))).toBe(false);
+      expect(await batcher.has(hash('2'))).toBe(true);
+
+      await batcher.invalidateTags(['items']);
+      expect(await batcher.has(hash('2'))).toBe(false);
+      expect(deleteValueListener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should combine tags from tagFn with cacheEntry tags', async () => {
+      const batchFunction = jest.fn().mockImplementation(async (queries: string[]) =>
+        queries.map(id => id === '1' ? cacheEntry({ id }, { tags: ['first'] }) : { id }));
+      const batcher = new SmartBatcher(batchFunction, { tagFn: query => [`item:${query}`] });
+
+      await batcher.loadMany(['1', '2']);
+
+      expect(await batcher.invalidateTags(['first'])).toEqual([hash('1')]);
+      expect(await batcher.invalidateTags(['item:2'])).toEqual([hash('2')]);
+      expect(await batcher.invalidateTags(['item:1'])).toEqual([]);
+    });
+
+    it('should reject only the items whose tagFn throws', async () => {
+      const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => queries.map(id => ({ id })));
+      const batcher = new SmartBatcher(batchFunction, {
+        tagFn: query => {
+          if (query === '1') {
+            throw new Error('tag boom');
+          }
+          return [];
+        }
+      });
+
+      const [first, second] = await batcher.loadMany(['1', '2']);
+
+      expect(first).toBeInstanceOf(CacheError);
+      expect((first as CacheError).cause).toEqual(new Error('tag boom'));
+      expect(second).toEqual({ id: '2' });
+      expect(await batcher.has(hash('1'))).toBe(false);
+      await expect(batcher.load('1')).rejects.toThrow(CacheError);
+    });
+
+    it('should replace tags when a key is stored again', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+
+      await batcher.setValue('a', { id: 'a', name: 'A' }, { tags: ['old'] });
+      await batcher.setValue('a', { id: 'a', name: 'A2' }, { tags: ['new'] });
+
+      expect(await batcher.invalidateTags(['old'])).toEqual([]);
+      expect(await batcher.invalidateTags(['new'])).toEqual(['a']);
+    });
+
+    it('should pass the originating query to invalidateWhere', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction);
+
+      await batcher.loadMany(['1', '2', '3']);
+
+      expect(await batcher.invalidateWhere(query => query === '2')).toEqual([hash('2')]);
+    });
+
+    it('should invalidate entries matching a predicate and clear their timers', async () => {
+      jest.useFakeTimers();
+      try {
+        const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 1000 });
+        const expiredListener = jest.fn();
+        const deleteValueListener = jest.fn();
+        batcher.on('expiredValue', expiredListener);
+        batcher.on('deleteValue', deleteValueListener);
+
+        await batcher.setValue('a', mockData[0], { query: '1' });
+        await batcher.setValue('b', mockData[1], { query: '2' });
+        await batcher.setValue('c', mockData[2]);
+
+        const deleted = await batcher.invalidateWhere((query, value) => query === '1' || value.name === 'Item 3');
+
+        expect(deleted).toEqual(['a', 'c']);
+        expect(deleteValueListener).toHaveBeenCalledTimes(2);
+        expect(await batcher.has('b')).toBe(true);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(expiredListener).toHaveBeenCalledTimes(1);
+        expect(expiredListener).toHaveBeenCalledWith({ key: 'b' });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should wait for queued and running batches in drain()', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return queries.map(id => ({ id }));
+      }, { delay: 60000 });
+
+      const load = batcher.load('1');
+      await new Promise(resolve => setImmediate(resolve));
+      await batcher.drain();
+
+      expect(await batcher.has(hash('1'))).toBe(true);
+      await expect(load).resolves.toEqual({ id: '1' });
+    });
+
+    it('should reject pending loads and later calls after dispose()', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { delay: 60000 });
+
+      const load = batcher.load('1');
+      await new Promise(resolve => setImmediate(resolve));
+      batcher.dispose();
+
+      await expect(load).rejects.toThrow(BatcherDisposedError);
+      await expect(batcher.load('2')).rejects.toThrow(BatcherDisposedError);
+      await expect(batcher.setValue('a', mockData[0])).rejects.toThrow(BatcherDisposedError);
+      expect(mockBatchFunction).not.toHaveBeenCalled();
+    });
+
+    it('should clear expiration timers on dispose()', async () => {
+      jest.useFakeTimers();
+      try {
+        const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 1000 });
+        await batcher.setValue('a', mockData[0]);
+
+        batcher.dispose();
+
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should stop retrying once disposed', async () => {
+      const batchFunction = jest.fn().mockRejectedValue(new Error('Downstream error'));
+      const batcher = new SmartBatcher(batchFunction, { retry: { maxAttempts: 5, initialDelayMs: 60000 } });
+
+      const load = batcher.load('1');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      batcher.dispose();
+
+      await expect(load).rejects.toThrow(BatcherDisposedError);
+      expect(batchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send chunks still waiting for a batch slot once disposed', async () => {
+      let release!: () => void;
+      const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+        await new Promise<void>(resolve => { release = resolve; });
+        return queries.map(id => ({ id }));
+      });
+      const batcher = new SmartBatcher(batchFunction, { maxBatchSize: 1, maxConcurrentBatches: 1 });
+
+      const loads = ['1', '2', '3'].map(id => batcher.load(id));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      batcher.dispose();
+      release();
+
+      for (const load of loads) {
+        await expect(load).rejects.toThrow(BatcherDisposedError);
+      }
+      await batcher.drain();
+      expect(batchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unref expiration timers by default', async () => {
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+      try {
+        const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 1000 });
+        await batcher.setValue('a', mockData[0]);
+        expect(setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value.hasRef()).toBe(false);
+        batcher.dispose();
+
+        const refBatcher = new SmartBatcher(mockBatchFunction, { expirationTime: 1000, unrefTimers: false });
+        await refBatcher.setValue('a', mockData[0]);
+        expect(setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value.hasRef()).toBe(true);
+        refBatcher.dispose();
+      } finally {
+        setTimeoutSpy.mockRestore();
+      }
+    });
+
+    it('should drain and dispose with await using', async () => {
+      let disposed: SmartBatcher;
+      let load: Promise<unknown>;
+      {
+        await using batcher = new SmartBatcher(mockBatchFunction, { delay: 60000 });
+        disposed = batcher;
+        load = batcher.load('1');
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      await expect(load).resolves.toEqual(mockData[0]);
+      await expect(disposed.load('1')).rejects.toThrow(BatcherDisposedError);
+    });
   });
 
   describe('clearCache', () => {
@@ -201,6 +870,169 @@ describe('SmartBatcher', () => {
     });
   });
 
+  describe('eviction', () => {
+    it('should evict the least recently used entry by default', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 2 });
+      const evictedListener = jest.fn();
+      batcher.on('evicted', evictedListener);
+
+      await batcher.setValue('a', mockData[0]);
+      await batcher.setValue('b', mockData[1]);
+      await batcher.get('a');
+      await batcher.setValue('c', mockData[2]);
+
+      expect(await batcher.has('a')).toBe(true);
+      expect(await batcher.has('b')).toBe(false);
+      expect(await batcher.has('c')).toBe(true);
+      expect(evictedListener).toHaveBeenCalledWith({ key: 'b', value: mockData[1], reason: 'maxEntries', policy: 'lru' });
+    });
+
+    it('should evict the least frequently used entry with lfu', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 2, evictionPolicy: 'lfu' });
+
+      await batcher.setValue('a', mockData[0]);
+      await batcher.setValue('b', mockData[1]);
+      await batcher.get('a');
+      await batcher.get('a');
+      await batcher.get('b');
+      await batcher.setValue('c', mockData[2]);
+
+      expect(await batcher.has('a')).toBe(true);
+      expect(await batcher.has('b')).toBe(false);
+    });
+
+    it('should evict the oldest entry with fifo', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 2, evictionPolicy: 'fifo' });
+
+      await batcher.setValue('a', mockData[0]);
+      await batcher.setValue('b', mockData[1]);
+      await batcher.get('a');
+      await batcher.setValue('c', mockData[2]);
+
+      expect(await batcher.has('a')).toBe(false);
+      expect(await batcher.has('b')).toBe(true);
+    });
+
+    it('should evict entries to stay under the memory limit', async () => {
+      const value = { id: 'x', data: 'x'.repeat(400) };
+      const batcher = new SmartBatcher(mockBatchFunction, { memoryLimitMB: 800 / 1024 / 1024 });
+
+      await batcher.setValue('a', value);
+      await batcher.setValue('b', value);
+
+      expect(await batcher.has('a')).toBe(false);
+      expect(await batcher.has('b')).toBe(true);
+    });
+
+    it('should keep a batch of results within maxEntries', async () => {
+      const store = new MemoryCacheStore<any>();
+      const batcher = new SmartBatcher(async (queries: string[]) => queries.map(id => ({ id })), { store, maxEntries: 2 });
+      const evictedListener = jest.fn();
+      batcher.on('evicted', evictedListener);
+
+      await batcher.loadMany(['1', '2', '3', '4', '5']);
+
+      expect(Object.keys(await store.all())).toHaveLength(2);
+      expect((await batcher.getStats()).entries).toBe(2);
+      expect(evictedListener).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep a batch of results within memoryLimitMB', async () => {
+      const batcher = new SmartBatcher(async (queries: string[]) => queries.map(id => ({ id })), { sizeOf: () => 1000, memoryLimitMB: 2500 / 1024 / 1024 });
+
+      await batcher.loadMany(['1', '2', '3', '4', '5']);
+
+      expect(await batcher.getMemoryUsage()).toBeLessThanOrEqual(2500);
+    });
+
+    it('should not evict anything for a value larger than the memory limit', async () => {
+      const batchFunction = jest.fn().mockImplementation(async (queries: string[]) =>
+        queries.map(id => ({ id, data: 'x'.repeat(200 * 1024) })));
+      const batcher = new SmartBatcher(batchFunction, { memoryLimitMB: 0.1 });
+      const evictedListener = jest.fn();
+      batcher.on('evicted', evictedListener);
+      await Promise.all(['a', 'b', 'c'].map(key => batcher.setValue(key, mockData[0])));
+
+      const value = await batcher.load('big');
+
+      expect(value.id).toBe('big');
+      expect(evictedListener).not.toHaveBeenCalled();
+      expect(await batcher.has('a')).toBe(true);
+      expect(await batcher.has(hash('big'))).toBe(false);
+      await expect(batcher.setValue('big', value)).rejects.toThrow(MemoryLimitError);
+    });
+
+    it('should still resolve loads when an entry is evicted', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 1 });
+
+      await batcher.load('1');
+      const result = await batcher.load('2');
+
+      expect(result).toEqual(mockData[1]);
+      expect(await batcher.loadMany(['1'])).toEqual([mockData[0]]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw MemoryLimitError with the reject policy', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 1, evictionPolicy: 'reject' });
+
+      await batcher.setValue('a', mockData[0]);
+
+      await expect(batcher.setValue('b', mockData[1])).rejects.toThrow(MemoryLimitError);
+      await expect(batcher.load('2')).rejects.toThrow(CacheError);
+      expect(await batcher.has('a')).toBe(true);
+    });
+  });
+
+  describe('memory accounting', () => {
+    it('should keep a running total across writes, overwrites and deletes', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { sizeOf: (value: { id: string }) => value.id.length * 100 });
+
+      await batcher.setValue('a', { id: 'x' });
+      const single = await batcher.getMemoryUsage();
+      await batcher.setValue('b', { id: 'xyz' });
+      expect(await batcher.getMemoryUsage()).toBe(2 * single + 200);
+
+      await batcher.setValue('a', { id: 'xy' });
+      await batcher.deleteValue('b');
+      expect(await batcher.getMemoryUsage()).toBe(single + 100);
+
+      await batcher.clearCache();
+      expect(await batcher.getMemoryUsage()).toBe(0);
+    });
+
+    it('should measure each value once', async () => {
+      const sizeOf = jest.fn().mockReturnValue(10);
+      const batcher = new SmartBatcher(mockBatchFunction, { sizeOf });
+
+      await batcher.loadMany(['1', '2', '3']);
+      await batcher.setValue('a', mockData[0]);
+
+      expect(sizeOf).toHaveBeenCalledTimes(4);
+    });
+
+    it('should count entries already in the store', async () => {
+      const store = new MemoryCacheStore<{ id: string }>();
+      await store.set('a', { id: 'x' });
+      const batcher = new SmartBatcher(mockBatchFunction, { store, sizeOf: () => 500, memoryLimitMB: 800 / 1024 / 1024 });
+
+      await batcher.setValue('b', { id: 'y' });
+
+      expect(await batcher.has('a')).toBe(false);
+      expect(await batcher.getMemoryUsage()).toBeLessThan(1000);
+    });
+
+    it('should evict by the custom estimate', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { sizeOf: () => 1024 * 1024, memoryLimitMB: 1.5 });
+
+      await batcher.setValue('a', mockData[0]);
+      await batcher.setValue('b', mockData[1]);
+
+      expect(await batcher.has('a')).toBe(false);
+      expect(await batcher.has('b')).toBe(true);
+    });
+  });
+
   describe('has', () => {
     it('should check if a key exists in cache', async () => {
       const batcher = new SmartBatcher(mockBatchFunction);
@@ -261,6 +1093,142 @@ describe('SmartBatcher', () => {
     });
   });
 
+  describe('staleWhileRevalidate and refreshAhead', () => {
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should serve expired values within the stale window and refresh them', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 30, staleWhileRevalidate: 1000 });
+      const staleHitListener = jest.fn();
+      batcher.on('staleHit', staleHitListener);
+
+      await batcher.load('1');
+      await wait(50);
+
+      const result = await batcher.load('1');
+      expect(result).toEqual(mockData[0]);
+      expect(staleHitListener).toHaveBeenCalledWith(expect.objectContaining({ key: expect.any(String), value: mockData[0] }));
+
+      await wait(10);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+
+      await batcher.load('1');
+      expect(staleHitListener).toHaveBeenCalledTimes(1);
+      await batcher.clearCache();
+    });
+
+    it('should expire values once the stale window has passed', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 10, staleWhileRevalidate: 10 });
+
+      await batcher.setValue('key', mockData[0]);
+      await wait(15);
+      expect(await batcher.has('key')).toBe(true);
+
+      await wait(20);
+      expect(await batcher.has('key')).toBe(false);
+    });
+
+    it('should refresh hot keys before they expire', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 100, refreshAhead: 0.3 });
+      const refreshAheadListener = jest.fn();
+      batcher.on('refreshAhead', refreshAheadListener);
+
+      await batcher.load('1');
+      await batcher.load('1');
+      expect(refreshAheadListener).not.toHaveBeenCalled();
+
+      await wait(40);
+      expect(await batcher.load('1')).toEqual(mockData[0]);
+      await wait(10);
+
+      expect(refreshAheadListener).toHaveBeenCalledTimes(1);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+      await batcher.clearCache();
+    });
+
+    it('should report failed background refreshes', async () => {
+      const batcher = new SmartBatcher(mockErrorBatchFunction, { expirationTime: 10, staleWhileRevalidate: 1000 });
+      const refreshErrorListener = jest.fn();
+      batcher.on('refreshError', refreshErrorListener);
+
+      await batcher.setValue(hash('1'), mockData[0]);
+      await wait(20);
+
+      expect(await batcher.load('1')).toEqual(mockData[0]);
+      await wait(10);
+
+      expect(refreshErrorListener).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(BatchFunctionError) }));
+      await batcher.clearCache();
+    });
+  });
+
+  describe('cacheNotFound', () => {
+    it('should reject later loads of missing items without calling batchFunction', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { cacheNotFound: true });
+      const notFoundHitListener = jest.fn();
+      batcher.on('notFoundHit', notFoundHitListener);
+
+      await expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+      await expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+      const results = await batcher.loadMany(['missing', '1']);
+
+      expect(results[0]).toBeInstanceOf(NotFoundError);
+      expect(results[1]).toEqual(mockData[0]);
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+      expect(notFoundHitListener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report tombstones separately from real values', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { cacheNotFound: true });
+      const hasListener = jest.fn();
+      const setNotFoundListener = jest.fn();
+      batcher.on('has', hasListener);
+      batcher.on('setNotFound', setNotFoundListener);
+
+      await expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+      const key = hash('missing');
+
+      expect(setNotFoundListener).toHaveBeenCalledWith({ key, ttl: 60000 });
+      expect(await batcher.has(key)).toBe(false);
+      expect(hasListener).toHaveBeenCalledWith({ key, exists: false, notFound: true });
+      expect(await batcher.get(key)).toBeUndefined();
+    });
+
+    it('should forget missing items after notFoundTTL', async () => {
+      const batcher = new SmartBatcher(mockBatchFunction, { cacheNotFound: true, notFoundTTL: 10 });
+
+      await expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+
+      expect(mockBatchFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire tombstones after a minute by default', async () => {
+      jest.useFakeTimers();
+      try {
+        const batcher = new SmartBatcher(mockBatchFunction, { cacheNotFound: true });
+        const expiredListener = jest.fn();
+        batcher.on('expiredValue', expiredListener);
+
+        const first = expect(batcher.load('missing')).rejects.toThrow(NotFoundError);
+        await jest.runOnlyPendingTimersAsync();
+        await first;
+        await jest.advanceTimersByTimeAsync(59999);
+        expect(expiredListener).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(expiredListener).toHaveBeenCalledWith({ key: hash('missing') });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject a notFoundTTL that would keep tombstones forever', () => {
+      expect(() => new SmartBatcher(mockBatchFunction, { cacheNotFound: true, notFoundTTL: 0 })).toThrow(RangeError);
+      expect(() => new SmartBatcher(mockBatchFunction, { notFoundTTL: 0 })).not.toThrow();
+    });
+  });
+
   describe('events', () => {
     it('should emit events', async () => {
       const batcher = new SmartBatcher(mockBatchFunction);
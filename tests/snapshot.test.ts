@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import hash from 'object-hash';
+import SmartBatcher from '../src';
+
+describe('snapshots', () => {
+  const mockBatchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => (id === 'missing' ? null : { id }));
+  });
+
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-batcher-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should export entries as NDJSON with their remaining ttl', async () => {
+    const batcher = new SmartBatcher(mockBatchFunction, { expirationTime: 60000 });
+    await batcher.load('1');
+    const filePath = path.join(tmpDir, 'snapshot.ndjson');
+
+    const exported = await batcher.exportSnapshot(filePath);
+    await batcher.clearCache();
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(exported).toBe(1);
+    expect(lines).toEqual([{ key: hash('1'), value: { id: '1' }, ttl: expect.any(Number), age: expect.any(Number), exportedAt: expect.any(Number) }]);
+    expect(lines[0].ttl).toBeGreaterThan(59000);
+    expect(lines[0].ttl).toBeLessThanOrEqual(60000);
+  });
+
+  it('should warm a new batcher from a file snapshot', async () => {
+    const filePath = path.join(tmpDir, 'snapshot.ndjson');
+    const source = new SmartBatcher(mockBatchFunction, { cacheNotFound: true });
+    await source.loadMany(['1', '2', 'missing']);
+    await source.exportSnapshot(filePath);
+
+    const target = new SmartBatcher(mockBatchFunction, { cacheNotFound: true });
+    const importedListener = jest.fn();
+    target.on('snapshotImported', importedListener);
+    const summary = await target.importSnapshot(filePath);
+
+    expect(summary).toEqual({ imported: 3, expired: 0, rejected: 0 });
+    expect(importedListener).toHaveBeenCalledWith(summary);
+    expect(await target.loadMany(['1', '2', 'missing'])).toEqual([{ id: '1' }, { id: '2' }, expect.any(Error)]);
+    expect(mockBatchFunction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recreate expiry timers with the remaining time', async () => {
+    const stream = new PassThrough();
+    stream.end(JSON.stringify({ key: 'a', value: { id: 'a' }, ttl: 10, age: 0 }) + '\n');
+    const batcher = new SmartBatcher(mockBatchFunction);
+
+    await batcher.importSnapshot(stream);
+    expect(await batcher.has('a')).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await batcher.has('a')).toBe(false);
+  });
+
+  it('should count the time between export and import against the ttl', async () => {
+    jest.useFakeTimers();
+    try {
+      const source = new SmartBatcher(mockBatchFunction, { expirationTime: 100 });
+      await source.setValue('short', { id: 'short' });
+      await source.setValue('long', { id: 'long' }, { ttl: 1000 });
+      const stream = new PassThrough();
+      await source.exportSnapshot(stream);
+      stream.end();
+
+      jest.setSystemTime(Date.now() + 300);
+      const target = new SmartBatcher(mockBatchFunction);
+      const summary = await target.importSnapshot(stream);
+
+      expect(summary).toEqual({ imported: 1, expired: 1, rejected: 0 });
+      expect(await target.has('short')).toBe(false);
+      await jest.advanceTimersByTimeAsync(699);
+      expect(await target.has('long')).toBe(true);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(await target.has('long')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should skip expired entries and respect the memory limit', async () => {
+    const stream = new PassThrough();
+    stream.end([
+      { key: 'expired', value: { id: 'expired' }, ttl: 0, age: 1000 },
+      { key: 'a', value: { id: 'a' }, ttl: null, age: 0 },
+      { key: 'b', value: { id: 'b' }, ttl: null, age: 0 }
+    ].map(entry => JSON.stringify(entry)).join('\n'));
+    const batcher = new SmartBatcher(mockBatchFunction, { maxEntries: 1, evictionPolicy: 'reject' });
+
+    const summary = await batcher.importSnapshot(stream);
+
+    expect(summary).toEqual({ imported: 1, expired: 1, rejected: 1 });
+    expect(await batcher.has('expired')).toBe(false);
+    expect(await batcher.has('a')).toBe(true);
+  });
+});
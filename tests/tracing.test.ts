@@ -0,0 +1,195 @@
+import hash from 'object-hash';
+import SmartBatcher, { BatchFunctionError, Logger, NotFoundError, Span, SpanAttributes, SpanContext, SpanLink, Tracer } from '../src';
+
+interface RecordedSpan {
+  name: string;
+  context: SpanContext;
+  attributes: SpanAttributes;
+  links: SpanLink[];
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+class RecordingTracer implements Tracer {
+  spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: { attributes?: SpanAttributes; links?: SpanLink[] } = {}): Span {
+    const recorded: RecordedSpan = {
+      name,
+      context: { traceId: 'trace', spanId: `span-${this.spans.length + 1}`, traceFlags: 1 },
+      attributes: { ...options.attributes },
+      links: options.links ?? [],
+      ended: false
+    };
+    this.spans.push(recorded);
+    const span: Span = {
+      spanContext: () => recorded.context,
+      setAttribute: (key, value) => {
+        recorded.attributes[key] = value;
+        return span;
+      },
+      setAttributes: attributes => {
+        Object.assign(recorded.attributes, attributes);
+        return span;
+      },
+      addEvent: () => span,
+      recordException: () => {},
+      setStatus: status => {
+        recorded.status = status;
+        return span;
+      },
+      end: () => {
+        recorded.ended = true;
+      }
+    };
+    return span;
+  }
+
+  named(name: string): RecordedSpan[] {
+    return this.spans.filter(span => span.name === name);
+  }
+}
+
+describe('tracing and logging', () => {
+  const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => id === 'bad' ? new Error('bad') : id === 'missing' ? null : { id });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('tracer', () => {
+    it('should link the load spans carried by a batch', async () => {
+      const tracer = new RecordingTracer();
+      const batcher = new SmartBatcher(batchFunction, { tracer });
+
+      await Promise.all([batcher.load('1'), batcher.load('2')]);
+
+      const loads = tracer.named('smartBatcher.load');
+      const [batch] = tracer.named('smartBatcher.batch');
+      expect(loads).toHaveLength(2);
+      expect(batch.links.map(link => link.context)).toEqual(loads.map(load => load.context));
+      expect(batch.attributes).toEqual(expect.objectContaining({ 'smart_batcher.batch_size': 2, 'smart_batcher.errors': 0 }));
+      loads.forEach(load => {
+        expect(load.attributes['smart_batcher.batch_id']).toBe(batch.attributes['smart_batcher.batch_id']);
+        expect(load.ended).toBe(true);
+      });
+      expect(batch.ended).toBe(true);
+    });
+
+    it('should record cache hits and errors', async () => {
+      const tracer = new RecordingTracer();
+      const batcher = new SmartBatcher(batchFunction, { tracer });
+      await batcher.load('1');
+
+      await batcher.load('1');
+      await expect(batcher.load('bad')).rejects.toThrow();
+
+      const [miss, hit, failed] = tracer.named('smartBatcher.load');
+      expect(miss.attributes['smart_batcher.cache_hit']).toBe(false);
+      expect(hit.attributes).toEqual(expect.objectContaining({ 'smart_batcher.cache_hit': true, 'smart_batcher.cache_tier': 'l2' }));
+      expect(failed.status).toEqual(expect.objectContaining({ code: 2 }));
+      expect(tracer.named('smartBatcher.batch')[1].attributes['smart_batcher.errors']).toBe(1);
+    });
+
+    it('should summarize loadMany on its span', async () => {
+      const tracer = new RecordingTracer();
+      const batcher = new SmartBatcher(batchFunction, { tracer });
+      await batcher.load('1');
+
+      await batcher.loadMany(['1', '2', 'bad']);
+
+      const [span] = tracer.named('smartBatcher.loadMany');
+      const batch = tracer.named('smartBatcher.batch')[1];
+      expect(span.attributes).toEqual(expect.objectContaining({
+        'smart_batcher.keys': 3,
+        'smart_batcher.cache_hits': 1,
+        'smart_batcher.errors': 1,
+        'smart_batcher.batch_ids': [batch.attributes['smart_batcher.batch_id']]
+      }));
+      expect(batch.links).toEqual([{ context: span.context }, { context: span.context }]);
+    });
+  });
+
+  describe('batchId', () => {
+    it('should be shared by batch events and errors', async () => {
+      const batcher = new SmartBatcher(batchFunction);
+      const batchStart = jest.fn();
+      const batchEnd = jest.fn();
+      batcher.on('batchStart', batchStart);
+      batcher.on('batchEnd', batchEnd);
+
+      const error = await batcher.load('missing').catch(error => error);
+
+      const { batchId } = batchStart.mock.calls[0][0];
+      expect(batchStart).toHaveBeenCalledWith({ batchId, size: 1, queries: ['missing'] });
+      expect(batchEnd).toHaveBeenCalledWith(expect.objectContaining({ batchId, size: 1, attempts: 1, errors: 0 }));
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.batchId).toBe(batchId);
+    });
+
+    it('should be on retry events and the final error', async () => {
+      const failing = jest.fn().mockRejectedValue(new Error('down'));
+      const batcher = new SmartBatcher(failing, { retry: { maxAttempts: 2, initialDelayMs: 1, jitter: false } });
+      const retryListener = jest.fn();
+      batcher.on('retry', retryListener);
+
+      const error = await batcher.load('1').catch(error => error);
+
+      expect(error).toBeInstanceOf(BatchFunctionError);
+      expect(retryListener).toHaveBeenCalledWith(expect.objectContaining({ batchId: error.batchId, attempt: 2 }));
+    });
+  });
+
+  describe('logger', () => {
+    const createLogger = (): jest.Mocked<Logger> => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    });
+
+    it('should only log at or above logLevel', async () => {
+      const logger = createLogger();
+      const batcher = new SmartBatcher(batchFunction, { logger, logLevel: 'error' });
+
+      await batcher.load('1');
+      await batcher.load('bad').catch(() => {});
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should log loads at debug level', async () => {
+      const logger = createLogger();
+      const batcher = new SmartBatcher(batchFunction, { logger, logLevel: 'debug' });
+
+      await batcher.load('1');
+
+      expect(logger.debug).toHaveBeenCalledWith('SmartBatcher load', expect.objectContaining({ key: hash('1') }));
+      expect(logger.debug).toHaveBeenCalledWith('SmartBatcher batch', expect.objectContaining({ size: 1, queries: ['1'] }));
+    });
+
+    it('should log batchFunction failures as errors', async () => {
+      const logger = createLogger();
+      const batcher = new SmartBatcher(jest.fn().mockRejectedValue(new Error('down')), { logger });
+
+      await batcher.load('1').catch(() => {});
+
+      expect(logger.error).toHaveBeenCalledWith('SmartBatcher batchFunction failed', expect.objectContaining({ size: 1 }));
+    });
+
+    it('should log to console in debugMode', async () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation(() => {});
+      const batcher = new SmartBatcher(batchFunction, { debugMode: true });
+
+      try {
+        await batcher.load('1');
+        expect(debug).toHaveBeenCalledWith('SmartBatcher load', expect.any(Object));
+      } finally {
+        debug.mockRestore();
+      }
+    });
+  });
+});
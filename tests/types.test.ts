@@ -0,0 +1,95 @@
+import SmartBatcher, { BatcherError, NotFoundError, SmartBatcherEvents, cacheEntry } from '../src';
+
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends (<V>() => V extends B ? 1 : 2) ? true : false;
+const assertType = <Condition extends true>() => {};
+
+interface UserQuery {
+  id: number;
+  tenant: string;
+}
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('types', () => {
+  const batchFunction = async (queries: UserQuery[]) => queries.map(({ id }): User | null => ({ id, name: `User ${id}` }));
+
+  it('should infer query and result types from batchFunction', async () => {
+    const batcher = new SmartBatcher(batchFunction);
+    assertType<Equal<typeof batcher, SmartBatcher<UserQuery, User>>>();
+
+    const user = await batcher.load({ id: 1, tenant: 'a' });
+    assertType<Equal<typeof user, User>>();
+
+    const users = await batcher.loadMany([{ id: 2, tenant: 'a' }]);
+    assertType<Equal<typeof users, (User | Error)[]>>();
+
+    // @ts-expect-error queries must match the batchFunction parameter
+    expect(() => batcher.load('1')).toBeDefined();
+  });
+
+  it('should constrain cacheKeyFields to query fields', () => {
+    new SmartBatcher(batchFunction, { cacheKeyFields: ['id'] });
+
+    // @ts-expect-error 'email' is not a field of UserQuery
+    new SmartBatcher(batchFunction, { cacheKeyFields: ['email'] });
+  });
+
+  it('should type queryNormalizer and resultKeyFn', () => {
+    new SmartBatcher(batchFunction, {
+      queryNormalizer: query => {
+        assertType<Equal<typeof query, UserQuery>>();
+        return { ...query, tenant: query.tenant.toLowerCase() };
+      },
+      resultMode: 'keyed',
+      resultKeyFn: result => {
+        assertType<Equal<typeof result, User>>();
+        return { id: result.id };
+      }
+    });
+  });
+
+  it('should infer the result type through cacheEntry envelopes', () => {
+    const batcher = new SmartBatcher(async (queries: UserQuery[]) =>
+      queries.map(({ id }) => cacheEntry<User>({ id, name: `User ${id}` }, { tags: [`user:${id}`] })));
+
+    assertType<Equal<typeof batcher, SmartBatcher<UserQuery, User>>>();
+  });
+
+  it('should infer the scope context from batchFunction', async () => {
+    const batcher = new SmartBatcher(async (queries: UserQuery[], viewer: { userId: number }) =>
+      queries.map(({ id }): User => ({ id, name: `User ${id} for ${viewer.userId}` })));
+
+    const scope = batcher.scope({ userId: 1 });
+    assertType<Equal<typeof scope.context, { userId: number }>>();
+
+    // @ts-expect-error the context must match the batchFunction parameter
+    batcher.scope({ userId: 'alice' });
+  });
+
+  it('should type event payloads', () => {
+    const batcher = new SmartBatcher(batchFunction);
+
+    batcher.on('cacheHit', ({ key, query, value }) => {
+      assertType<Equal<typeof key, string>>();
+      assertType<Equal<typeof query, UserQuery>>();
+      assertType<Equal<typeof value, User>>();
+    });
+    batcher.once('retry', ({ queries }) => {
+      assertType<Equal<typeof queries, UserQuery[]>>();
+    });
+    assertType<Equal<SmartBatcherEvents<UserQuery, User>['setValue'], { key: string, value: User }>>();
+
+    // @ts-expect-error unknown events are rejected
+    batcher.on('unknownEvent', () => {});
+  });
+
+  it('should carry the query type on errors', () => {
+    const error = new NotFoundError<UserQuery>('Not found', { id: 1, tenant: 'a' });
+
+    assertType<Equal<typeof error.query, UserQuery>>();
+    expect(error).toBeInstanceOf(BatcherError);
+  });
+});
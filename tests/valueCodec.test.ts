@@ -0,0 +1,158 @@
+import hash from 'object-hash';
+import SmartBatcher, { CacheError, MemoryCacheStore, cacheEntry } from '../src';
+import { ValueCodec, deepFreeze } from '../src/valueCodec';
+
+interface User {
+  id: string;
+  profile: { tags: string[] };
+}
+
+describe('value modes', () => {
+  const batchFunction = jest.fn().mockImplementation(async (queries: string[]) => {
+    return queries.map(id => ({ id, profile: { tags: ['a'] } }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ValueCodec', () => {
+    it('should deep-freeze objects but leave typed arrays writable', () => {
+      const value = deepFreeze({ nested: { list: [1] }, bytes: new Uint8Array(2) });
+
+      expect(Object.isFrozen(value.nested.list)).toBe(true);
+      value.bytes[0] = 1;
+      expect(value.bytes[0]).toBe(1);
+    });
+
+    it('should round-trip compressed values through base64', () => {
+      const codec = new ValueCodec<User>('serialize', () => 0, undefined, true);
+      const value = { id: '1', profile: { tags: Array(100).fill('tag') } };
+
+      const stored = codec.encode(value);
+
+      expect(stored).toMatch(/^[A-Za-z0-9+/]+=*$/);
+      expect(codec.decode(stored)).toEqual(value);
+      expect(codec.sizeOf(stored)).toBeLessThan(JSON.stringify(value).length);
+    });
+
+    it('should use a custom serializer', () => {
+      const serializer = { serialize: jest.fn(() => 'x'), deserialize: jest.fn(() => ({ id: 'x', profile: { tags: [] } })) };
+      const codec = new ValueCodec<User>('serialize', () => 0, serializer);
+
+      expect(codec.decode(codec.encode({ id: '1', profile: { tags: [] } }))).toEqual({ id: 'x', profile: { tags: [] } });
+      expect(serializer.deserialize).toHaveBeenCalledWith('x');
+    });
+  });
+
+  describe('SmartBatcher valueMode', () => {
+    it('should return shared references by default', async () => {
+      const batcher = new SmartBatcher<string, User>(batchFunction);
+
+      const [first, second] = await Promise.all([batcher.load('1'), batcher.load('1')]);
+
+      expect(first).toBe(second);
+      expect(await batcher.get(hash('1'))).toBe(first);
+    });
+
+    it('should deep-freeze values in freeze mode', async () => {
+      const batcher = new SmartBatcher<string, User>(batchFunction, { valueMode: 'freeze' });
+
+      const value = await batcher.load('1');
+
+      expect(() => value.profile.tags.push('b')).toThrow(TypeError);
+      expect(await batcher.get(hash('1'))).toEqual({ id: '1', profile: { tags: ['a'] } });
+    });
+
+    it('should give every caller its own copy in clone mode', async () => {
+      const batcher = new SmartBatcher<string, User>(batchFunction, { valueMode: 'clone' });
+
+      const [first, second] = await Promise.all([batcher.load('1'), batcher.load('1')]);
+      first.profile.tags.push('mutated');
+      const cached = await batcher.get(hash('1'));
+      cached!.id = 'mutated';
+
+      expect(second.profile.tags).toEqual(['a']);
+      expect(await batcher.load('1')).toEqual({ id: '1', profile: { tags: ['a'] } });
+      expect(batchFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should copy values passed to setValue in clone mode', async () => {
+      const batcher = new SmartBatcher<string, User>(batchFunction, { valueMode: 'clone' });
+      const value = { id: '1', profile: { tags: ['a'] } };
+
+      await batcher.setValue('1', value);
+      value.profile.tags.push('b');
+
+      expect(await batcher.get('1')).toEqual({ id: '1', profile: { tags: ['a'] } });
+    });
+
+    it('should store serialized strings in serialize mode', async () => {
+      const store = new MemoryCacheStore<any>();
+      const batcher = new SmartBatcher<string, User>(batchFunction, { valueMode: 'serialize', store });
+
+      const value = await batcher.load('1');
+      value.id = 'mutated';
+
+      expect(await store.get(hash('1'))).toBe(JSON.stringify({ id: '1', profile: { tags: ['a'] } }));
+      expect(await batcher.get(hash('1'))).toEqual({ id: '1', profile: { tags: ['a'] } });
+    });
+
+    it('should return the same shape on the first load and on cache hits in serialize mode', async () => {
+      const batcher = new SmartBatcher<string, any>(
+        async (queries: string[]) => queries.map(id => ({ id, createdAt: new Date(0) })),
+        { valueMode: 'serialize' }
+      );
+
+      const [fresh, deduplicated] = await Promise.all([batcher.load('1'), batcher.load('1')]);
+      const cached = await batcher.load('1');
+
+      expect(fresh).toEqual(cached);
+      expect(typeof fresh.createdAt).toBe('string');
+      expect(fresh).not.toBe(deduplicated);
+    });
+
+    it('should measure the stored representation', async () => {
+      const value = { id: '1', profile: { tags: Array(500).fill('repeated tag') } };
+      const plain = new SmartBatcher<string, User>(batchFunction);
+      const compressed = new SmartBatcher<string, User>(batchFunction, { valueMode: 'serialize', compress: true });
+
+      await plain.setValue('1', value);
+      await compressed.setValue('1', value);
+
+      expect(await compressed.getMemoryUsage()).toBeLessThan(await plain.getMemoryUsage() / 10);
+      expect(await compressed.get('1')).toEqual(value);
+    });
+
+    it('should keep private entries copied per read', async () => {
+      const batcher = new SmartBatcher<string, User>(
+        async (queries: string[]) => queries.map(id => cacheEntry({ id, profile: { tags: [] } }, { private: true })),
+        { valueMode: 'clone' }
+      );
+      const scope = batcher.scope({});
+
+      const value = await scope.load('1');
+      value.profile.tags.push('mutated');
+
+      expect(await scope.load('1')).toEqual({ id: '1', profile: { tags: [] } });
+    });
+
+    it('should reject private values that cannot be cloned', async () => {
+      const batcher = new SmartBatcher<string, any>(
+        async (queries: string[]) => queries.map(id => id === 'f' ? cacheEntry({ f: () => 1 }, { private: true }) : { id }),
+        { valueMode: 'clone' }
+      );
+      const scope = batcher.scope({});
+
+      const [uncloneable, plain] = await scope.loadMany(['f', '1']);
+
+      expect(uncloneable).toBeInstanceOf(CacheError);
+      expect(plain).toEqual({ id: '1' });
+      await expect(scope.load('f')).rejects.toThrow(CacheError);
+    });
+
+    it('should reject compress without serialize mode', () => {
+      expect(() => new SmartBatcher(batchFunction, { compress: true })).toThrow(RangeError);
+    });
+  });
+});